@@ -14,6 +14,8 @@ type ExtensionPreferences = {
   "handoffMethod": "terminal" | "desktop",
   /** Auto-start Server - Automatically start OpenCode server if not running */
   "autoStartServer": boolean,
+  /** Context Size Limit - Maximum characters of clipboard or selected text attached to a question */
+  "contextSizeLimit": string,
   /** Terminal Application - Which terminal to use when opening sessions */
   "terminalApp": "default" | "ghostty" | "iterm" | "warp" | "alacritty" | "kitty" | "terminal" | "hyper"
 }
@@ -27,7 +29,14 @@ declare namespace Preferences {
   /** Preferences accessible in the `sessions` command */
   export type Sessions = ExtensionPreferences & {}
   /** Preferences accessible in the `projects` command */
-  export type Projects = ExtensionPreferences & {}
+  export type Projects = ExtensionPreferences & {
+  /** Project Folders - Comma-separated folders to scan for git repositories, e.g. ~/Developer */
+  "projectRoots"?: string,
+  /** Scan Depth - How many folder levels below each project folder to look for repositories */
+  "projectScanDepth": "1" | "2" | "3" | "4"
+}
+  /** Preferences accessible in the `check-pending` command */
+  export type CheckPending = ExtensionPreferences & {}
 }
 
 declare namespace Arguments {
@@ -40,5 +49,7 @@ declare namespace Arguments {
   export type Sessions = {}
   /** Arguments passed to the `projects` command */
   export type Projects = {}
+  /** Arguments passed to the `check-pending` command */
+  export type CheckPending = {}
 }
 
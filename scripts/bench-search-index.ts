@@ -0,0 +1,145 @@
+/**
+ * Cold-start benchmark for session search. Compares rebuilding the index from one JSON string,
+ * as the LocalStorage cache did, with importing it from the on-disk search store.
+ *
+ *   bun scripts/bench-search-index.ts [sessions] [messagesPerSession]
+ */
+import { mkdtemp, readFile, rm, stat, writeFile, readdir } from "fs/promises"
+import { tmpdir } from "os"
+import path from "path"
+import {
+  IndexedMessage,
+  SessionInfo,
+  addSessionDocuments,
+  createSessionIndex,
+  searchSessionIndex,
+} from "../src/lib/search-index"
+import { SearchStore } from "../src/lib/search-store"
+
+const SESSION_COUNT = Number(process.argv[2] ?? 3000)
+const MESSAGES_PER_SESSION = Number(process.argv[3] ?? 12)
+const RUNS = 3
+const SEARCH_LIMIT = 500
+const QUERIES = ["middleware", "refactor parser", "useSessionSearch", "timeout retry"]
+
+const WORDS = (
+  "the a to of and in for with on that this is it from error fix add update remove test build config server " +
+  "client request response session message index search cache render component hook state effect promise " +
+  "async await function return import export type interface class const handler parser token query result " +
+  "middleware router database migration schema column table retry timeout stream buffer encode decode " +
+  "useSessionSearch getClient listSessions buildSnippet parse_session_query fetch_messages_after " +
+  "refactor rename extract inline deprecate benchmark profile memory leak performance regression"
+).split(" ")
+
+// Fixed seed so every run searches the same fixture
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0
+    return seed / 2 ** 32
+  }
+}
+
+function generateFixture(): { session: SessionInfo; messages: IndexedMessage[] }[] {
+  const random = createRandom(42)
+  const pick = () => WORDS[Math.floor(random() * WORDS.length)]
+  const sentence = (length: number) => Array.from({ length }, pick).join(" ")
+
+  return Array.from({ length: SESSION_COUNT }, (_, i) => {
+    const id = `ses_${i.toString(36).padStart(8, "0")}`
+    const messages = Array.from({ length: MESSAGES_PER_SESSION }, (_, j) => ({
+      id: `msg_${i}_${j}`,
+      text: sentence(20 + Math.floor(random() * 80)),
+    }))
+    return {
+      session: {
+        id,
+        title: sentence(5),
+        directory: `/Users/dev/projects/${pick()}-${i % 40}`,
+        updated: Date.now() - i * 60000,
+        cursor: messages[messages.length - 1].id,
+      },
+      messages,
+    }
+  })
+}
+
+async function measure(label: string, run: () => Promise<number[]>): Promise<void> {
+  const times: number[] = []
+  let counts: number[] = []
+  for (let i = 0; i < RUNS; i++) {
+    const start = performance.now()
+    counts = await run()
+    times.push(performance.now() - start)
+  }
+  times.sort((a, b) => a - b)
+  console.log(`${label}: median ${times[Math.floor(RUNS / 2)].toFixed(0)} ms, matches ${counts.join("/")}`)
+}
+
+async function getFolderSize(folder: string): Promise<number> {
+  let size = 0
+  for (const entry of await readdir(folder, { withFileTypes: true })) {
+    const entryPath = path.join(folder, entry.name)
+    size += entry.isDirectory() ? await getFolderSize(entryPath) : (await stat(entryPath)).size
+  }
+  return size
+}
+
+async function main() {
+  const root = await mkdtemp(path.join(tmpdir(), "opencode-search-bench-"))
+  try {
+    const fixture = generateFixture()
+    console.log(`${SESSION_COUNT} sessions x ${MESSAGES_PER_SESSION} messages`)
+
+    // The LocalStorage cache: every session and its messages in one JSON string
+    const legacyPath = path.join(root, "legacy.json")
+    const legacySessions = fixture.map(({ session, messages }) => ({ ...session, messages }))
+    await writeFile(legacyPath, JSON.stringify({ version: 2, sessions: legacySessions }))
+
+    const storePath = path.join(root, "store")
+    const store = new SearchStore(storePath)
+    const state = createSessionIndex()
+    for (const { session, messages } of fixture) {
+      addSessionDocuments(state, session, messages)
+      await store.setMessages(session.id, messages)
+    }
+    await store.save(state)
+
+    console.log(`LocalStorage JSON: ${((await stat(legacyPath)).size / 1e6).toFixed(1)} MB`)
+    console.log(`Search store: ${((await getFolderSize(storePath)) / 1e6).toFixed(1)} MB`)
+
+    // Both paths end with search results and the text of the best match for its snippet, like the Sessions list
+    await measure("Rebuild from JSON", async () => {
+      const cached = JSON.parse(await readFile(legacyPath, "utf8")) as { sessions: typeof legacySessions }
+      const coldState = createSessionIndex()
+      const data = new Map<string, IndexedMessage[]>()
+      for (const { messages, ...session } of cached.sessions) {
+        addSessionDocuments(coldState, session, messages)
+        data.set(session.id, messages)
+      }
+      return QUERIES.map((query) => {
+        const { matches } = searchSessionIndex(coldState, query, SEARCH_LIMIT)
+        const [best] = matches.keys()
+        if (best) data.get(best)
+        return matches.size
+      })
+    })
+
+    await measure("Import from store", async () => {
+      const coldStore = new SearchStore(storePath)
+      const coldState = await coldStore.load()
+      if (!coldState) throw new Error("Store did not load")
+      const counts: number[] = []
+      for (const query of QUERIES) {
+        const { matches } = searchSessionIndex(coldState, query, SEARCH_LIMIT)
+        const [best] = matches.keys()
+        if (best) await coldStore.getMessages(best)
+        counts.push(matches.size)
+      }
+      return counts
+    })
+  } finally {
+    await rm(root, { recursive: true, force: true })
+  }
+}
+
+main()
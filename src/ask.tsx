@@ -2,7 +2,6 @@ import {
   List,
   ActionPanel,
   Action,
-  Detail,
   Icon,
   showToast,
   Toast,
@@ -14,12 +13,29 @@ import {
   Clipboard,
   Color,
 } from "@raycast/api"
-import { useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import { useOpenCode } from "./hooks/useOpenCode"
 import { useProviders } from "./hooks/useProviders"
 import { useProjects } from "./hooks/useProjects"
 import { usePathAutocomplete, extractPathFromQuery } from "./hooks/usePathAutocomplete"
 import { handoffToOpenCode, copySessionCommand } from "./lib/handoff"
+import { FilePartInput, PromptAbortedError } from "./lib/opencode"
+import { BUILTIN_COMMANDS, isBuiltinCommand, parseSlashCommand } from "./lib/slash-commands"
+import { parseContextLimit, resolveContextTokens } from "./lib/context"
+import { getProjectChoice, saveProjectChoice } from "./lib/project-choices"
+import { getActiveProject } from "./lib/active-project"
+import { ModelRef, describeModel, findModel, getModelKeywords, modelSupportsAttachments } from "./lib/models"
+import {
+  PendingPrompt,
+  getPendingPrompts,
+  trackPendingPrompt,
+  removePendingPrompt,
+  hasPromptMessage,
+  isPendingPromptExpired,
+  findCompletedReply,
+} from "./lib/pending"
+import { buildConversation, ConversationTurn } from "./lib/conversation"
+import { renderMessage } from "./lib/render"
 import { homedir } from "os"
 
 import { TerminalApp } from "./lib/handoff"
@@ -28,31 +44,226 @@ interface Preferences {
   defaultProject?: string
   handoffMethod: "terminal" | "desktop"
   terminalApp: TerminalApp
+  contextSizeLimit?: string
 }
 
 interface Arguments {
   question?: string
 }
 
-export default function Command(props: LaunchProps<{ arguments: Arguments }>) {
+const PENDING_POLL_INTERVAL = 2000
+// Draft references are checked on disk once typing pauses, not on every keystroke
+const DRAFT_ATTACHMENT_DELAY = 300
+
+interface LaunchContext {
+  /** Continue this session instead of starting a new one */
+  sessionId?: string
+  directory?: string
+}
+
+export default function Command(props: LaunchProps<{ arguments: Arguments; launchContext?: LaunchContext }>) {
   const preferences = getPreferenceValues<Preferences>()
   const initialQuestion = props.arguments?.question || ""
+  const launchContext = props.launchContext
 
   const [searchText, setSearchText] = useState(initialQuestion)
-  const [response, setResponse] = useState<string | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
   const [selectedAgent, setSelectedAgent] = useState<string | null>(null)
   const [selectedModel, setSelectedModel] = useState<{ providerID: string; modelID: string } | null>(null)
-  const [activeDirectory, setActiveDirectory] = useState<string | undefined>(preferences.defaultProject)
+  const [activeDirectory, setActiveDirectory] = useState<string | undefined>(
+    launchContext?.directory || preferences.defaultProject
+  )
+
+  const {
+    providers,
+    favorites,
+    recentModels,
+    defaultModel,
+    isLoading: modelsLoading,
+    error: modelsError,
+    retry: retryModels,
+    rememberModel,
+    toggleFavorite,
+    isFavorite,
+  } = useProviders()
+  // A remembered model may no longer be offered by the server
+  const activeModel =
+    (selectedModel && (providers.length === 0 || findModel(providers, selectedModel)) ? selectedModel : null) ||
+    defaultModel
+  const [pendingTurn, setPendingTurn] = useState<ConversationTurn | null>(null)
+  const [interruptedTurn, setInterruptedTurn] = useState<ConversationTurn | null>(null)
+  const [reattachedPrompt, setReattachedPrompt] = useState<PendingPrompt | null>(null)
+  const closingRef = useRef(false)
+  const [showDetails, setShowDetails] = useState(false)
+
+  const {
+    isConnected,
+    isLoading,
+    agents,
+    commands,
+    currentSession,
+    messages,
+    sendPrompt,
+    runCommand,
+    compactSession,
+    shareSession,
+    unshareSession,
+    abortPrompt,
+    refreshMessages,
+    resumeSession,
+    resetSession,
+    setWorkingDirectory,
+  } = useOpenCode(activeDirectory)
 
-  const { providers, favorites, recentModels, defaultModel, isLoading: modelsLoading } = useProviders()
-  const activeModel = selectedModel || defaultModel
-  const [streamingText, setStreamingText] = useState<string | null>(null)
+  useEffect(() => {
+    if (!launchContext?.sessionId) {
+      restoreActiveProject().then(reattachPendingPrompt)
+      return
+    }
 
-  const { isConnected, isLoading, agents, commands, currentSession, sendPrompt, setWorkingDirectory } =
-    useOpenCode(activeDirectory)
+    resumeSession(launchContext.sessionId, launchContext.directory)
+      .then((session) => {
+        if (session.directory) {
+          setActiveDirectory(session.directory)
+        }
+      })
+      .catch((error) =>
+        showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to open session",
+          message: error instanceof Error ? error.message : "Unknown error",
+        })
+      )
+  }, [launchContext?.sessionId])
+
+  const turns = useMemo(
+    () => buildConversation(messages, currentSession?.directory),
+    [messages, currentSession?.directory]
+  )
+
+  // Poll a prompt submitted in an earlier launch until its reply is complete
+  useEffect(() => {
+    if (!reattachedPrompt) return
+
+    if (findCompletedReply(messages, reattachedPrompt)) {
+      removePendingPrompt(reattachedPrompt.sessionID)
+      setReattachedPrompt(null)
+      showToast({ style: Toast.Style.Success, title: "Response ready" })
+      return
+    }
+
+    // The prompt never reached the server, or its reply is taking too long to keep waiting on
+    if (!hasPromptMessage(messages, reattachedPrompt) || isPendingPromptExpired(reattachedPrompt)) {
+      removePendingPrompt(reattachedPrompt.sessionID)
+      setReattachedPrompt(null)
+      return
+    }
+
+    const timer = setTimeout(() => {
+      refreshMessages().catch(() => undefined)
+    }, PENDING_POLL_INTERVAL)
+    return () => clearTimeout(timer)
+  }, [reattachedPrompt, messages, refreshMessages])
+
+  // A directory passed by another command wins over the project picked in Switch Project
+  async function restoreActiveProject() {
+    if (launchContext?.directory) return
+    const directory = await getActiveProject()
+    if (directory && directory !== activeDirectory) {
+      setActiveDirectory(directory)
+      setWorkingDirectory(directory)
+    }
+  }
+
+  async function reattachPendingPrompt() {
+    const pending = await getPendingPrompts()
+    const latest = pending[pending.length - 1]
+    if (!latest) return
+
+    try {
+      const session = await resumeSession(latest.sessionID, latest.directory)
+      if (session.directory) {
+        setActiveDirectory(session.directory)
+      }
+      setReattachedPrompt(latest)
+    } catch {
+      // The session is gone, so there is nothing left to wait for
+      await removePendingPrompt(latest.sessionID)
+    }
+  }
+
+  // Once history is reloaded from the server it includes the interrupted reply
+  useEffect(() => {
+    setInterruptedTurn(null)
+  }, [messages])
+
+  const { projects, isLoading: projectsLoading, addProject } = useProjects()
+  const activeProject = projects.find((p) => p.path === activeDirectory)
+  const appliedDirectoryRef = useRef<string | undefined>(undefined)
+
+  // Apply the project's defaults, falling back to the agent and model last used in this directory
+  useEffect(() => {
+    if (!activeDirectory || projectsLoading || appliedDirectoryRef.current === activeDirectory) return
+    appliedDirectoryRef.current = activeDirectory
+    const project = projects.find((p) => p.path === activeDirectory)
+    getProjectChoice(activeDirectory).then((choice) => {
+      const model = project?.model ?? choice?.model
+      const agent = project?.agent ?? choice?.agent
+      if (model) setSelectedModel(model)
+      if (agent || choice) setSelectedAgent(agent ?? null)
+    })
+  }, [activeDirectory, projectsLoading, projects])
+
+  function chooseAgent(agentName: string | null) {
+    setSelectedAgent(agentName)
+    if (activeDirectory) {
+      saveProjectChoice(activeDirectory, { agent: agentName ?? undefined })
+    }
+  }
+
+  function chooseModel(ref: ModelRef) {
+    if (isActiveModel(ref)) return
+    setSelectedModel(ref)
+    rememberModel(ref)
+    if (activeDirectory) {
+      saveProjectChoice(activeDirectory, { model: ref })
+    }
+  }
+
+  async function handleToggleFavorite() {
+    if (!activeModel) return
+    const wasFavorite = isFavorite(activeModel)
+    await toggleFavorite(activeModel)
+    await showToast({
+      style: Toast.Style.Success,
+      title: wasFavorite ? `Removed ${activeModel.modelID} from favorites` : `Added ${activeModel.modelID} to favorites`,
+    })
+  }
+
+  // Attachments in the draft decide which models can take it
+  const [draftAttachments, setDraftAttachments] = useState<FilePartInput[]>([])
+  useEffect(() => {
+    const timer = setTimeout(
+      () => setDraftAttachments(extractPathFromQuery(searchText, activeDirectory).files),
+      DRAFT_ATTACHMENT_DELAY
+    )
+    return () => clearTimeout(timer)
+  }, [searchText, activeDirectory])
+
+  function isActiveModel(ref: ModelRef): boolean {
+    return activeModel?.providerID === ref.providerID && activeModel?.modelID === ref.modelID
+  }
+
+  function canUseModel(ref: ModelRef): boolean {
+    return isActiveModel(ref) || modelSupportsAttachments(findModel(providers, ref), draftAttachments)
+  }
+
+  function modelIcon(ref: ModelRef, fallback?: Icon): Icon | undefined {
+    // The selected model stays listed even when it can't take the draft, flagged instead
+    if (!modelSupportsAttachments(findModel(providers, ref), draftAttachments)) return Icon.Warning
+    return fallback
+  }
 
-  const { projects, addProject } = useProjects()
   const { suggestions: pathSuggestions, isActive: showingPathSuggestions } = usePathAutocomplete(searchText)
 
   const showingAgentPicker =
@@ -69,15 +280,17 @@ export default function Command(props: LaunchProps<{ arguments: Arguments }>) {
 
   const showingSlashCommands = searchText.startsWith("/") && !searchText.includes(" ")
   const slashFilter = showingSlashCommands ? searchText.slice(1).toLowerCase() : ""
+  const availableCommands = [...BUILTIN_COMMANDS, ...commands.filter((c) => !isBuiltinCommand(c.name))]
   const filteredSlashCommands = showingSlashCommands
-    ? commands.filter(
+    ? availableCommands.filter(
         (c) => c.name.toLowerCase().includes(slashFilter) || c.name.toLowerCase().startsWith(slashFilter)
       )
     : []
 
-  async function handleSubmit() {
-    const { cleanQuery, directory } = extractPathFromQuery(searchText)
-    if (!cleanQuery.trim()) return
+  /** `onAccepted` is called once the prompt is safe to leave running: tracked as pending, or answered */
+  async function handleSubmit(query: string = searchText, onAccepted?: () => void) {
+    const { cleanQuery: pathQuery, directory, files } = extractPathFromQuery(query, activeDirectory)
+    if (!pathQuery.trim()) return
 
     if (directory && directory !== activeDirectory) {
       setActiveDirectory(directory)
@@ -88,66 +301,183 @@ export default function Command(props: LaunchProps<{ arguments: Arguments }>) {
     if (!activeModel) {
       await showToast({
         style: Toast.Style.Failure,
-        title: "Model not selected",
-        message: "Please wait for models to load or check if OpenCode server is running",
+        title: modelsError ? "Models failed to load" : "Model not selected",
+        message: modelsError?.message ?? "Please wait for models to load or check if OpenCode server is running",
+        primaryAction: modelsError ? { title: "Retry", onAction: () => retryModels() } : undefined,
+      })
+      return
+    }
+
+    if (!modelSupportsAttachments(findModel(providers, activeModel), files)) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `${activeModel.modelID} can't read these attachments`,
+        message: "Pick a model with file support for images and PDFs",
+      })
+      return
+    }
+
+    let context: Awaited<ReturnType<typeof resolveContextTokens>>
+    try {
+      context = await resolveContextTokens(pathQuery, parseContextLimit(preferences.contextSizeLimit))
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Could not attach context",
+        message: error instanceof Error ? error.message : "Unknown error",
       })
       return
     }
+    const cleanQuery = context.cleanQuery
+
+    // Only known commands are treated as such, so questions may still start with "/"
+    const parsed = parseSlashCommand(cleanQuery)
+    const slashCommand = parsed && availableCommands.some((c) => c.name === parsed.name) ? parsed : null
+    if (slashCommand && isBuiltinCommand(slashCommand.name)) {
+      await runBuiltinCommand(slashCommand.name)
+      return
+    }
 
     setIsProcessing(true)
-    setStreamingText("Thinking...")
+    setSearchText("")
+    const turn: ConversationTurn = {
+      id: "pending",
+      question: cleanQuery,
+      answer: "",
+      attachments: [...files.map((f) => f.filename || f.url), ...context.labels],
+      replies: [],
+      agent: selectedAgent || undefined,
+      model: activeModel,
+      directory: directory || activeDirectory,
+      time: Date.now(),
+      pending: true,
+    }
+    let partialAnswer = ""
+    let trackedSessionID: string | undefined
+    let tracking = Promise.resolve()
+    setPendingTurn(turn)
     
+    async function clearTracking() {
+      await tracking
+      if (trackedSessionID) {
+        await removePendingPrompt(trackedSessionID)
+      }
+    }
+
     const toast = await showToast({
       style: Toast.Style.Animated,
-      title: `Asking ${activeModel.modelID}...`,
+      title: slashCommand ? `Running /${slashCommand.name}...` : `Asking ${activeModel.modelID}...`,
       message: "You can close Raycast - response will be ready when you return",
     })
     
     try {
-      const result = await sendPrompt(cleanQuery, {
+      const promptOptions = {
         agent: selectedAgent || undefined,
         model: activeModel!,
-      })
-      setResponse(result)
-      setStreamingText(null)
+        attachments: [...files, ...context.parts],
+        onPartial: (text: string) => {
+          partialAnswer = text
+          setPendingTurn({ ...turn, answer: text })
+        },
+        // Tracked once the server has the user message, so an entry always has a reply coming
+        onTracked: ({ sessionID, messageID }: { sessionID: string; messageID?: string }) => {
+          if (!messageID) return
+          trackedSessionID = sessionID
+          tracking = tracking
+            .then(() =>
+              trackPendingPrompt({
+                sessionID,
+                messageID,
+                question: cleanQuery,
+                directory: turn.directory,
+                createdAt: turn.time,
+              })
+            )
+            .then(() => onAccepted?.())
+        },
+      }
+      if (slashCommand) {
+        await runCommand(slashCommand.name, slashCommand.args, promptOptions)
+      } else {
+        await sendPrompt(cleanQuery, promptOptions)
+      }
+      // After Submit and Close the reply stays pending until Ask is opened again
+      if (!closingRef.current) {
+        await clearTracking()
+      }
+      onAccepted?.()
       toast.style = Toast.Style.Success
       toast.title = "Response ready"
       toast.message = undefined
     } catch (error) {
-      setStreamingText(null)
+      await clearTracking()
+      if (error instanceof PromptAbortedError) {
+        setInterruptedTurn({ ...turn, id: "interrupted", answer: partialAnswer, pending: false, interrupted: true })
+        toast.style = Toast.Style.Success
+        toast.title = "Response stopped"
+        toast.message = undefined
+        return
+      }
+      setSearchText(cleanQuery)
       toast.style = Toast.Style.Failure
       toast.title = "Failed to get response"
       toast.message = error instanceof Error ? error.message : "Unknown error"
     } finally {
+      setPendingTurn(null)
       setIsProcessing(false)
     }
   }
 
-  async function handleSlashCommand(commandName: string) {
+  function handleAskAbout(token: "{clipboard}" | "{selection}") {
+    const question = searchText.trim() || "Explain this"
+    handleSubmit(question.includes(token) ? question : `${question} ${token}`)
+  }
+
+  async function runBuiltinCommand(commandName: string) {
+    setSearchText("")
+
     if (commandName === "clear") {
-      setResponse(null)
-      setSearchText("")
+      resetSession()
       setSelectedAgent(null)
       await showToast({ title: "Conversation cleared" })
-    } else if (commandName === "compact") {
-      setResponse(null)
-      setSearchText("")
-      await showToast({ title: "Context compacted" })
-    } else if (commandName === "share") {
-      if (currentSession?.share?.url) {
-        await Clipboard.copy(currentSession.share.url)
-        await showToast({ title: "Share URL copied to clipboard" })
-      } else {
-        await showToast({ title: "No share URL available", style: Toast.Style.Failure })
+      return
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Running /${commandName}...` })
+    try {
+      if (commandName === "compact") {
+        if (!activeModel) throw new Error("No model selected")
+        await compactSession(activeModel)
+        toast.title = "Session compacted"
+      } else if (commandName === "share") {
+        const session = await shareSession()
+        if (!session.share?.url) throw new Error("Server did not return a share link")
+        await Clipboard.copy(session.share.url)
+        toast.title = "Share link copied to clipboard"
+        toast.message = session.share.url
+      } else if (commandName === "unshare") {
+        await unshareSession()
+        toast.title = "Session is no longer shared"
       }
+      toast.style = Toast.Style.Success
+    } catch (error) {
+      toast.style = Toast.Style.Failure
+      toast.title = `/${commandName} failed`
+      toast.message = error instanceof Error ? error.message : "Unknown error"
+    }
+  }
+
+  async function handleSlashCommand(commandName: string) {
+    if (isBuiltinCommand(commandName)) {
+      await runBuiltinCommand(commandName)
     } else {
       setSearchText(`/${commandName} `)
-      await showToast({ title: `Using /${commandName}`, message: "Type your message and press Enter" })
+      await showToast({ title: `Using /${commandName}`, message: "Add arguments and press Enter" })
     }
   }
 
   function handleSelectAgent(agentName: string) {
-    setSelectedAgent(agentName)
+    chooseAgent(agentName)
     setSearchText("")
     showToast({
       style: Toast.Style.Success,
@@ -177,59 +507,190 @@ export default function Command(props: LaunchProps<{ arguments: Arguments }>) {
   }
 
   function handleNewQuestion() {
-    setResponse(null)
+    // Starting over means no longer waiting on the earlier prompt
+    if (reattachedPrompt) {
+      removePendingPrompt(reattachedPrompt.sessionID)
+      setReattachedPrompt(null)
+    }
+    resetSession()
     setSearchText("")
     setSelectedAgent(null)
   }
 
-  if (response) {
-    return (
-      <Detail
-        markdown={response}
-        navigationTitle={currentSession?.title || "OpenCode Response"}
-        metadata={
-          <Detail.Metadata>
-            {activeDirectory && <Detail.Metadata.Label title="Directory" text={activeDirectory.replace(homedir(), "~")} />}
-            {selectedAgent && <Detail.Metadata.Label title="Agent" text={selectedAgent} />}
-            {activeModel && <Detail.Metadata.Label title="Model" text={activeModel.modelID} />}
-            {currentSession && <Detail.Metadata.Label title="Session" text={currentSession.id.slice(0, 8)} />}
-          </Detail.Metadata>
-        }
-        actions={
-          <ActionPanel>
-            <ActionPanel.Section title="Actions">
-              <Action
-                title="Continue in OpenCode"
-                icon={Icon.Terminal}
-                shortcut={Keyboard.Shortcut.Common.Open}
-                onAction={handleHandoff}
-              />
-              <Action.CopyToClipboard
-                title="Copy Response"
-                content={response}
-                shortcut={Keyboard.Shortcut.Common.Copy}
-              />
-              <Action
-                title="Copy Session Command"
-                icon={Icon.Clipboard}
-                shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
-                onAction={handleCopyCommand}
-              />
-            </ActionPanel.Section>
-            <ActionPanel.Section title="Navigation">
-              <Action
-                title="New Question"
-                icon={Icon.Plus}
-                shortcut={Keyboard.Shortcut.Common.New}
-                onAction={handleNewQuestion}
+  const modelDropdown = (
+    <List.Dropdown
+      tooltip="Select Model"
+      value={activeModel ? `${activeModel.providerID}/${activeModel.modelID}` : ""}
+      onChange={(value) => {
+        const [providerID, ...modelParts] = value.split("/")
+        const modelID = modelParts.join("/")
+        chooseModel({ providerID, modelID })
+      }}
+    >
+      {favorites.length > 0 && (
+        <List.Dropdown.Section title="Favorites">
+          {favorites.filter(canUseModel).map((fav) => (
+            <List.Dropdown.Item
+              key={`fav-${fav.providerID}-${fav.modelID}`}
+              title={fav.modelName}
+              value={`${fav.providerID}/${fav.modelID}`}
+              icon={modelIcon(fav, Icon.Star)}
+            />
+          ))}
+        </List.Dropdown.Section>
+      )}
+      {recentModels.length > 0 && (
+        <List.Dropdown.Section title="Recent">
+          {recentModels
+            .filter((r) => !favorites.some((f) => f.providerID === r.providerID && f.modelID === r.modelID))
+            .filter(canUseModel)
+            .slice(0, 5)
+            .map((recent) => (
+              <List.Dropdown.Item
+                key={`recent-${recent.providerID}-${recent.modelID}`}
+                title={recent.modelName}
+                value={`${recent.providerID}/${recent.modelID}`}
+                icon={modelIcon(recent, Icon.Clock)}
               />
-            </ActionPanel.Section>
-          </ActionPanel>
-        }
-      />
+            ))}
+        </List.Dropdown.Section>
+      )}
+      {providers.map((provider) => (
+        <List.Dropdown.Section key={provider.id} title={provider.name}>
+          {Object.values(provider.models)
+            .filter((model) => canUseModel({ providerID: provider.id, modelID: model.id }))
+            .map((model) => {
+              const details = describeModel(model)
+              return (
+                <List.Dropdown.Item
+                  key={model.id}
+                  // Dropdown items have no accessories, so capabilities go in the title and keywords
+                  title={details ? `${model.name}  ${details}` : model.name}
+                  value={`${provider.id}/${model.id}`}
+                  keywords={getModelKeywords(model)}
+                  icon={modelIcon({ providerID: provider.id, modelID: model.id })}
+                />
+              )
+            })}
+        </List.Dropdown.Section>
+      ))}
+    </List.Dropdown>
+  )
+
+  const conversation = [...turns, interruptedTurn, pendingTurn].filter((t): t is ConversationTurn => t !== null)
+
+  if (conversation.length > 0) {
+    const latestTurn = conversation[conversation.length - 1]
+
+    const renderAnswer = (turn: ConversationTurn) => {
+      if (turn.replies.length === 0) {
+        if (turn.interrupted) return [turn.answer, "> _Interrupted_"].filter(Boolean).join("\n\n")
+        return turn.answer || "_Thinking..._"
+      }
+      return turn.replies.map((reply) => renderMessage(reply, { expanded: showDetails })).join("\n\n")
+    }
+
+    return (
+      <List
+        isShowingDetail
+        isLoading={isProcessing || reattachedPrompt !== null}
+        navigationTitle={currentSession?.title || "OpenCode Conversation"}
+        searchText={searchText}
+        onSearchTextChange={setSearchText}
+        searchBarPlaceholder={isProcessing ? "Waiting for response..." : "Ask a follow-up..."}
+        searchBarAccessory={modelDropdown}
+        selectedItemId={latestTurn.id}
+        filtering={false}
+      >
+        <List.Section title={currentSession?.title || "Conversation"} subtitle={`${conversation.length} turns`}>
+          {conversation.map((turn) => (
+            <List.Item
+              key={turn.id}
+              id={turn.id}
+              title={turn.question}
+              icon={turn.pending ? Icon.CircleProgress : turn.interrupted ? Icon.Stop : Icon.Message}
+              detail={
+                <List.Item.Detail
+                  markdown={`**You**\n\n${turn.question}\n\n---\n\n${renderAnswer(turn)}`}
+                  metadata={
+                    <List.Item.Detail.Metadata>
+                      {turn.agent && <List.Item.Detail.Metadata.Label title="Agent" text={turn.agent} />}
+                      {turn.model && <List.Item.Detail.Metadata.Label title="Model" text={turn.model.modelID} />}
+                      {turn.directory && (
+                        <List.Item.Detail.Metadata.Label title="Directory" text={turn.directory.replace(homedir(), "~")} />
+                      )}
+                      {turn.attachments.length > 0 && (
+                        <List.Item.Detail.Metadata.TagList title="Attachments">
+                          {turn.attachments.map((name) => (
+                            <List.Item.Detail.Metadata.TagList.Item key={name} text={name} icon={Icon.Document} />
+                          ))}
+                        </List.Item.Detail.Metadata.TagList>
+                      )}
+                      <List.Item.Detail.Metadata.Label title="Asked" text={new Date(turn.time).toLocaleString()} />
+                      {currentSession && (
+                        <List.Item.Detail.Metadata.Label title="Session" text={currentSession.id.slice(0, 8)} />
+                      )}
+                      {currentSession?.share?.url && (
+                        <List.Item.Detail.Metadata.Link title="Shared" target={currentSession.share.url} text="Open" />
+                      )}
+                    </List.Item.Detail.Metadata>
+                  }
+                />
+              }
+              actions={
+                <ActionPanel>
+                  <ActionPanel.Section title="Actions">
+                    {isProcessing && (
+                      <Action
+                        title="Stop Response"
+                        icon={Icon.Stop}
+                        shortcut={{ modifiers: ["cmd"], key: "." }}
+                        onAction={abortPrompt}
+                      />
+                    )}
+                    {searchText.trim() && !isProcessing && (
+                      <Action title="Send Follow-up" icon={Icon.ArrowRight} onAction={() => handleSubmit()} />
+                    )}
+                    <Action
+                      title="Continue in OpenCode"
+                      icon={Icon.Terminal}
+                      shortcut={Keyboard.Shortcut.Common.Open}
+                      onAction={handleHandoff}
+                    />
+                    <Action.CopyToClipboard
+                      title="Copy Response"
+                      content={turn.answer}
+                      shortcut={Keyboard.Shortcut.Common.Copy}
+                    />
+                    <Action
+                      title="Copy Session Command"
+                      icon={Icon.Clipboard}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                      onAction={handleCopyCommand}
+                    />
+                    <Action
+                      title={showDetails ? "Hide Tool Details" : "Show Tool Details"}
+                      icon={showDetails ? Icon.EyeDisabled : Icon.Eye}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+                      onAction={() => setShowDetails((value) => !value)}
+                    />
+                  </ActionPanel.Section>
+                  <ActionPanel.Section title="Navigation">
+                    <Action
+                      title="New Question"
+                      icon={Icon.Plus}
+                      shortcut={Keyboard.Shortcut.Common.New}
+                      onAction={handleNewQuestion}
+                    />
+                  </ActionPanel.Section>
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      </List>
     )
   }
-
   // Build context accessories for the header
   const contextAccessories: List.Item.Accessory[] = []
   if (selectedAgent) {
@@ -237,6 +698,8 @@ export default function Command(props: LaunchProps<{ arguments: Arguments }>) {
   }
   if (activeModel) {
     contextAccessories.push({ tag: { value: activeModel.modelID, color: Color.Purple }, tooltip: "Selected Model" })
+  } else if (modelsError) {
+    contextAccessories.push({ tag: { value: "Models unavailable", color: Color.Red }, tooltip: modelsError.message })
   }
   if (activeDirectory) {
     contextAccessories.push({ text: activeDirectory.replace(homedir(), "~"), tooltip: "Working Directory" })
@@ -248,56 +711,7 @@ export default function Command(props: LaunchProps<{ arguments: Arguments }>) {
       searchText={searchText}
       onSearchTextChange={setSearchText}
       searchBarPlaceholder="Ask anything... (@ for agents/paths, / for commands)"
-      searchBarAccessory={
-        <List.Dropdown
-          tooltip="Select Model"
-          value={activeModel ? `${activeModel.providerID}/${activeModel.modelID}` : ""}
-          onChange={(value) => {
-            const [providerID, ...modelParts] = value.split("/")
-            const modelID = modelParts.join("/")
-            setSelectedModel({ providerID, modelID })
-          }}
-        >
-          {favorites.length > 0 && (
-            <List.Dropdown.Section title="Favorites">
-              {favorites.map((fav) => (
-                <List.Dropdown.Item
-                  key={`fav-${fav.providerID}-${fav.modelID}`}
-                  title={fav.modelName}
-                  value={`${fav.providerID}/${fav.modelID}`}
-                  icon={Icon.Star}
-                />
-              ))}
-            </List.Dropdown.Section>
-          )}
-          {recentModels.length > 0 && (
-            <List.Dropdown.Section title="Recent">
-              {recentModels
-                .filter((r) => !favorites.some((f) => f.providerID === r.providerID && f.modelID === r.modelID))
-                .slice(0, 5)
-                .map((recent) => (
-                  <List.Dropdown.Item
-                    key={`recent-${recent.providerID}-${recent.modelID}`}
-                    title={recent.modelName}
-                    value={`${recent.providerID}/${recent.modelID}`}
-                    icon={Icon.Clock}
-                  />
-                ))}
-            </List.Dropdown.Section>
-          )}
-          {providers.map((provider) => (
-            <List.Dropdown.Section key={provider.id} title={provider.name}>
-              {Object.values(provider.models).map((model) => (
-                <List.Dropdown.Item
-                  key={model.id}
-                  title={model.name}
-                  value={`${provider.id}/${model.id}`}
-                />
-              ))}
-            </List.Dropdown.Section>
-          ))}
-        </List.Dropdown>
-      }
+      searchBarAccessory={modelDropdown}
       filtering={false}
       throttle
     >
@@ -375,7 +789,7 @@ export default function Command(props: LaunchProps<{ arguments: Arguments }>) {
                       <Action
                         title="Clear Agent"
                         icon={Icon.XMarkCircle}
-                        onAction={() => setSelectedAgent(null)}
+                        onAction={() => chooseAgent(null)}
                       />
                     )}
                     <Action
@@ -389,6 +803,17 @@ export default function Command(props: LaunchProps<{ arguments: Arguments }>) {
                       icon={Icon.Folder}
                       onAction={() => setSearchText("@~/")}
                     />
+                    {activeModel && (
+                      <Action
+                        title={isFavorite(activeModel) ? "Remove Model from Favorites" : "Add Model to Favorites"}
+                        icon={isFavorite(activeModel) ? Icon.StarDisabled : Icon.Star}
+                        shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+                        onAction={handleToggleFavorite}
+                      />
+                    )}
+                    {modelsError && (
+                      <Action title="Retry Loading Models" icon={Icon.ArrowClockwise} onAction={retryModels} />
+                    )}
                   </ActionPanel>
                 }
               />
@@ -404,22 +829,53 @@ export default function Command(props: LaunchProps<{ arguments: Arguments }>) {
                 accessories={contextAccessories}
                 actions={
                   <ActionPanel>
-                    <Action title="Submit" icon={Icon.ArrowRight} onAction={handleSubmit} />
+                    <Action title="Submit" icon={Icon.ArrowRight} onAction={() => handleSubmit()} />
                     <Action
                       title="Submit and Close"
                       icon={Icon.Clock}
                       shortcut={{ modifiers: ["cmd", "shift"], key: "return" }}
                       onAction={async () => {
-                        handleSubmit()
-                        await showHUD("Processing... Open Raycast again to see response")
+                        closingRef.current = true
+                        // Close only once the server has the prompt, so closing can't lose it
+                        const accepted = await new Promise<boolean>((resolve) => {
+                          handleSubmit(searchText, () => resolve(true)).finally(() => resolve(false))
+                        })
+                        if (!accepted) {
+                          closingRef.current = false
+                          return
+                        }
+                        await showHUD("Processing... Open Ask OpenCode again to see the response")
                         await popToRoot()
                       }}
                     />
+                    <Action
+                      title="Ask About Clipboard"
+                      icon={Icon.Clipboard}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "v" }}
+                      onAction={() => handleAskAbout("{clipboard}")}
+                    />
+                    <Action
+                      title="Ask About Selected Text"
+                      icon={Icon.TextCursor}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+                      onAction={() => handleAskAbout("{selection}")}
+                    />
+                    {activeModel && (
+                      <Action
+                        title={isFavorite(activeModel) ? "Remove Model from Favorites" : "Add Model to Favorites"}
+                        icon={isFavorite(activeModel) ? Icon.StarDisabled : Icon.Star}
+                        shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+                        onAction={handleToggleFavorite}
+                      />
+                    )}
+                    {modelsError && (
+                      <Action title="Retry Loading Models" icon={Icon.ArrowClockwise} onAction={retryModels} />
+                    )}
                     {selectedAgent && (
                       <Action
                         title="Clear Agent"
                         icon={Icon.XMarkCircle}
-                        onAction={() => setSelectedAgent(null)}
+                        onAction={() => chooseAgent(null)}
                       />
                     )}
                   </ActionPanel>
@@ -428,6 +884,63 @@ export default function Command(props: LaunchProps<{ arguments: Arguments }>) {
             </List.Section>
           )}
 
+          {!searchText.trim() && activeProject?.prompts && activeProject.prompts.length > 0 && (
+            <List.Section title="Prompt Templates" subtitle={activeProject.name}>
+              {activeProject.prompts.map((template, index) => (
+                <List.Item
+                  key={`${index}-${template.name}`}
+                  title={template.name}
+                  subtitle={template.prompt.split("\n")[0]}
+                  icon={Icon.Text}
+                  actions={
+                    <ActionPanel>
+                      <Action title="Ask" icon={Icon.ArrowRight} onAction={() => handleSubmit(template.prompt)} />
+                      <Action
+                        title="Edit Before Asking"
+                        icon={Icon.Pencil}
+                        shortcut={{ modifiers: ["cmd"], key: "e" }}
+                        onAction={() => setSearchText(template.prompt)}
+                      />
+                    </ActionPanel>
+                  }
+                />
+              ))}
+            </List.Section>
+          )}
+
+          {!searchText.trim() && (
+            <List.Section title="Quick Context" subtitle="Or use {clipboard} and {selection} in a question">
+              <List.Item
+                title="Ask About Clipboard"
+                subtitle="Explain the copied text"
+                icon={Icon.Clipboard}
+                actions={
+                  <ActionPanel>
+                    <Action
+                      title="Ask About Clipboard"
+                      icon={Icon.Clipboard}
+                      onAction={() => handleAskAbout("{clipboard}")}
+                    />
+                  </ActionPanel>
+                }
+              />
+              <List.Item
+                title="Ask About Selected Text"
+                subtitle="Explain the text selected in the frontmost app"
+                icon={Icon.TextCursor}
+                actions={
+                  <ActionPanel>
+                    <Action
+                      title="Ask About Selected Text"
+                      icon={Icon.TextCursor}
+                      onAction={() => handleAskAbout("{selection}")}
+                    />
+                  </ActionPanel>
+                }
+              />
+            </List.Section>
+          )}
+
           {projects.length > 0 && (
             <List.Section title="Recent Projects" subtitle="Use @path to switch">
               {projects.slice(0, 5).map((project) => (
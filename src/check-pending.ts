@@ -0,0 +1,61 @@
+import { showHUD, LaunchProps, LaunchType } from "@raycast/api"
+import { OpenCodeClient } from "./lib/opencode"
+import { ensureServer } from "./lib/server-manager"
+import {
+  getPendingPrompts,
+  markPendingPromptNotified,
+  removePendingPrompt,
+  findCompletedReply,
+  hasPromptMessage,
+} from "./lib/pending"
+
+export default async function Command(props: LaunchProps) {
+  const isBackground = props.launchType === LaunchType.Background
+  const pending = (await getPendingPrompts()).filter((p) => !p.notified)
+
+  if (pending.length === 0) {
+    if (!isBackground) await showHUD("No pending OpenCode responses")
+    return
+  }
+
+  let serverUrl: string
+  try {
+    // Never start a server from the background check; a pending prompt implies one was running
+    serverUrl = (await ensureServer(false)).url
+  } catch {
+    if (!isBackground) await showHUD("OpenCode server is not running")
+    return
+  }
+
+  const completed: string[] = []
+  let waiting = 0
+  for (const prompt of pending) {
+    try {
+      const client = new OpenCodeClient(serverUrl, prompt.directory)
+      const messages = await client.getSessionMessages(prompt.sessionID)
+      if (findCompletedReply(messages, prompt)) {
+        await markPendingPromptNotified(prompt.sessionID)
+        completed.push(prompt.question)
+      } else if (!hasPromptMessage(messages, prompt)) {
+        // The prompt never reached the session, so no reply will come
+        await removePendingPrompt(prompt.sessionID)
+      } else {
+        waiting++
+      }
+    } catch {
+      waiting++
+    }
+  }
+
+  if (completed.length === 1) {
+    await showHUD(`OpenCode answered: ${completed[0].slice(0, 60)}`)
+  } else if (completed.length > 1) {
+    await showHUD(`${completed.length} OpenCode responses are ready`)
+  } else if (!isBackground) {
+    await showHUD(
+      waiting > 0
+        ? `Still waiting on ${waiting} response${waiting === 1 ? "" : "s"}`
+        : "No pending OpenCode responses"
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { Form, ActionPanel, Action, Icon, showToast, Toast, useNavigation } from "@raycast/api"
+import { statSync } from "fs"
+import path from "path"
+
+interface AddProjectFormProps {
+  onAdd: (path: string) => Promise<void>
+}
+
+export function AddProjectForm({ onAdd }: AddProjectFormProps) {
+  const { pop } = useNavigation()
+
+  async function handleSubmit(values: { directories: string[] }) {
+    const directories = values.directories.filter((dir) => {
+      try {
+        return statSync(dir).isDirectory()
+      } catch {
+        return false
+      }
+    })
+
+    if (directories.length === 0) {
+      await showToast({ style: Toast.Style.Failure, title: "Choose at least one folder" })
+      return
+    }
+
+    for (const dir of directories) {
+      await onAdd(dir)
+    }
+    await showToast({
+      style: Toast.Style.Success,
+      title:
+        directories.length === 1 ? `Added ${path.basename(directories[0])}` : `Added ${directories.length} projects`,
+    })
+    pop()
+  }
+
+  return (
+    <Form
+      navigationTitle="Add Project"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Add Project" icon={Icon.Plus} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.FilePicker
+        id="directories"
+        title="Folders"
+        canChooseDirectories
+        canChooseFiles={false}
+        allowMultipleSelection
+      />
+    </Form>
+  )
+}
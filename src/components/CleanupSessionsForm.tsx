@@ -0,0 +1,217 @@
+import {
+  Form,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  useNavigation,
+  confirmAlert,
+  Alert,
+} from "@raycast/api"
+import { useState, useEffect, useRef } from "react"
+import { homedir } from "os"
+import { getClient, OpenCodeClient, Session } from "../lib/opencode"
+import { settleWithConcurrency } from "../lib/concurrency"
+
+interface CleanupSessionsFormProps {
+  sessions: Session[]
+  /** Called with the IDs that were actually deleted, including after a partial failure */
+  onDeleted: (sessionIds: string[]) => Promise<void>
+}
+
+interface CleanupRules {
+  olderThanDays: string
+  fromRaycast: boolean
+  directory: string
+  noReply: boolean
+}
+
+// Sessions started from Ask OpenCode are titled "Raycast: <question>"
+const RAYCAST_TITLE_PREFIX = "Raycast: "
+const DELETE_CONCURRENCY = 5
+const REPLY_CHECK_CONCURRENCY = 4
+// Any reply is enough, so the check starts with only the latest few messages
+const REPLY_CHECK_PAGE_SIZE = 5
+
+/** Page back through a session from its latest messages, stopping at the first assistant message */
+async function hasAssistantReply(client: OpenCodeClient, sessionId: string): Promise<boolean> {
+  for (let limit = REPLY_CHECK_PAGE_SIZE; ; limit *= 4) {
+    const messages = await client.getSessionMessages(sessionId, limit)
+    if (messages.some((m) => m.info.role === "assistant")) return true
+    if (messages.length < limit) return false
+  }
+}
+
+function matchesRules(session: Session, rules: CleanupRules, now: number): boolean {
+  const days = Number(rules.olderThanDays)
+  if (rules.olderThanDays.trim() && days >= 0 && session.time.updated > now - days * 86400000) return false
+  if (rules.fromRaycast && !session.title?.startsWith(RAYCAST_TITLE_PREFIX)) return false
+  if (rules.directory && session.directory !== rules.directory) return false
+  return true
+}
+
+export function CleanupSessionsForm({ sessions, onDeleted }: CleanupSessionsFormProps) {
+  const { pop } = useNavigation()
+  const [rules, setRules] = useState<CleanupRules>({
+    olderThanDays: "30",
+    fromRaycast: true,
+    directory: "",
+    noReply: false,
+  })
+  const [matches, setMatches] = useState<Session[]>([])
+  const [isChecking, setIsChecking] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  // Reply checks need a request per session, so keep the answers while rules change
+  const hasReplyRef = useRef(new Map<string, boolean>())
+
+  const directories = [...new Set(sessions.map((s) => s.directory).filter(Boolean))].sort((a, b) =>
+    a.localeCompare(b)
+  )
+  const invalidDays = rules.olderThanDays.trim() !== "" && !(Number(rules.olderThanDays) >= 0)
+
+  useEffect(() => {
+    let cancelled = false
+    const candidates = invalidDays ? [] : sessions.filter((s) => matchesRules(s, rules, Date.now()))
+
+    if (!rules.noReply) {
+      setMatches(candidates)
+      setIsChecking(false)
+      return
+    }
+
+    async function checkReplies() {
+      setIsChecking(true)
+      const client = await getClient()
+      const unchecked = candidates.filter((s) => !hasReplyRef.current.has(s.id))
+      await settleWithConcurrency(unchecked, REPLY_CHECK_CONCURRENCY, async (session) => {
+        if (cancelled) return
+        const sessionClient = session.directory ? client.forDirectory(session.directory) : client
+        hasReplyRef.current.set(session.id, await hasAssistantReply(sessionClient, session.id))
+      })
+      if (cancelled) return
+      // Sessions whose messages couldn't be read are left alone
+      setMatches(candidates.filter((s) => hasReplyRef.current.get(s.id) === false))
+      setIsChecking(false)
+    }
+
+    checkReplies().catch(() => {
+      if (!cancelled) setIsChecking(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [sessions, rules, invalidDays])
+
+  function updateRules(changes: Partial<CleanupRules>) {
+    setRules((current) => ({ ...current, ...changes }))
+  }
+
+  async function handleDelete() {
+    if (matches.length === 0 || isChecking) return
+
+    const toDelete = matches
+    const confirmed = await confirmAlert({
+      title: `Delete ${toDelete.length} Session${toDelete.length === 1 ? "" : "s"}?`,
+      message: "This permanently deletes them from OpenCode",
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    })
+    if (!confirmed) return
+
+    setIsDeleting(true)
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Deleting 0/${toDelete.length} sessions...` })
+
+    try {
+      const client = await getClient()
+      const results = await settleWithConcurrency(
+        toDelete,
+        DELETE_CONCURRENCY,
+        (session) => (session.directory ? client.forDirectory(session.directory) : client).deleteSession(session.id),
+        (completed) => {
+          toast.title = `Deleting ${completed}/${toDelete.length} sessions...`
+        }
+      )
+
+      const deleted = toDelete.filter((_, i) => results[i].status === "fulfilled").map((s) => s.id)
+      const failures = results.filter((r): r is PromiseRejectedResult => r.status === "rejected")
+      await onDeleted(deleted)
+
+      if (failures.length === 0) {
+        toast.style = Toast.Style.Success
+        toast.title = `Deleted ${deleted.length} session${deleted.length === 1 ? "" : "s"}`
+        pop()
+      } else {
+        const reason = failures[0].reason
+        toast.style = Toast.Style.Failure
+        toast.title = `Deleted ${deleted.length}, ${failures.length} failed`
+        toast.message = reason instanceof Error ? reason.message : String(reason)
+      }
+    } catch (error) {
+      toast.style = Toast.Style.Failure
+      toast.title = "Failed to delete sessions"
+      toast.message = error instanceof Error ? error.message : "Unknown error"
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const preview = isChecking
+    ? "Checking which sessions have replies..."
+    : `${matches.length} of ${sessions.length} session${sessions.length === 1 ? "" : "s"} will be deleted`
+
+  return (
+    <Form
+      navigationTitle="Clean Up Sessions"
+      isLoading={isChecking || isDeleting}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={`Delete ${matches.length} Session${matches.length === 1 ? "" : "s"}`}
+            icon={Icon.Trash}
+            style={Action.Style.Destructive}
+            onSubmit={handleDelete}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description title="Preview" text={preview} />
+      <Form.TextField
+        id="olderThanDays"
+        title="Older Than (Days)"
+        placeholder="Any age"
+        info="Sessions not updated in this many days"
+        error={invalidDays ? "Enter a number of days" : undefined}
+        value={rules.olderThanDays}
+        onChange={(olderThanDays) => updateRules({ olderThanDays })}
+      />
+      <Form.Checkbox
+        id="fromRaycast"
+        label="Only sessions created from Raycast"
+        value={rules.fromRaycast}
+        onChange={(fromRaycast) => updateRules({ fromRaycast })}
+      />
+      <Form.Checkbox
+        id="noReply"
+        label="Only sessions without an assistant reply"
+        value={rules.noReply}
+        onChange={(noReply) => updateRules({ noReply })}
+      />
+      <Form.Dropdown
+        id="directory"
+        title="Directory"
+        value={rules.directory}
+        onChange={(directory) => updateRules({ directory })}
+      >
+        <Form.Dropdown.Item value="" title="Any Directory" icon={Icon.List} />
+        {directories.map((directory) => (
+          <Form.Dropdown.Item
+            key={directory}
+            value={directory}
+            title={directory.replace(homedir(), "~")}
+            icon={Icon.Folder}
+          />
+        ))}
+      </Form.Dropdown>
+    </Form>
+  )
+}
@@ -0,0 +1,45 @@
+import { Form, ActionPanel, Action, Icon, showToast, Toast, useNavigation } from "@raycast/api"
+import { getClient, Session } from "../lib/opencode"
+
+interface EditSessionTitleFormProps {
+  session: Session
+  onUpdated: (session: Session) => void
+}
+
+export function EditSessionTitleForm({ session, onUpdated }: EditSessionTitleFormProps) {
+  const { pop } = useNavigation()
+
+  async function handleSubmit(values: { title: string }) {
+    const title = values.title.trim()
+    if (!title) {
+      await showToast({ style: Toast.Style.Failure, title: "Title can't be empty" })
+      return
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Renaming session..." })
+    try {
+      const client = await getClient(session.directory)
+      onUpdated(await client.updateSession(session.id, { title }))
+      toast.style = Toast.Style.Success
+      toast.title = "Session renamed"
+      pop()
+    } catch (error) {
+      toast.style = Toast.Style.Failure
+      toast.title = "Failed to rename session"
+      toast.message = error instanceof Error ? error.message : "Unknown error"
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle="Edit Title"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Title" icon={Icon.Check} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField id="title" title="Title" defaultValue={session.title} />
+    </Form>
+  )
+}
@@ -0,0 +1,62 @@
+import { Form, ActionPanel, Action, Icon, showToast, Toast, useNavigation, showInFinder } from "@raycast/api"
+import { getClient, Session } from "../lib/opencode"
+import { ExportFormat, exportSession } from "../lib/export"
+
+interface ExportValues {
+  folder: string[]
+  format: ExportFormat
+}
+
+export function ExportSessionForm({ session }: { session: Session }) {
+  const { pop } = useNavigation()
+
+  async function handleSubmit(values: ExportValues) {
+    const folder = values.folder[0]
+    if (!folder) {
+      await showToast({ style: Toast.Style.Failure, title: "Choose a folder to export to" })
+      return
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Exporting session..." })
+    try {
+      const client = await getClient(session.directory)
+      // No limit, so the export has the whole transcript rather than the latest page
+      const messages = await client.getSessionMessages(session.id)
+      const filePath = await exportSession(session, messages, values.format, folder)
+      toast.style = Toast.Style.Success
+      toast.title = "Session exported"
+      toast.message = filePath
+      toast.primaryAction = { title: "Show in Finder", onAction: () => showInFinder(filePath) }
+      pop()
+    } catch (error) {
+      toast.style = Toast.Style.Failure
+      toast.title = "Failed to export session"
+      toast.message = error instanceof Error ? error.message : "Unknown error"
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle="Export Session"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Export" icon={Icon.Download} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description title="Session" text={session.title || "Untitled Session"} />
+      <Form.FilePicker
+        id="folder"
+        title="Folder"
+        canChooseDirectories
+        canChooseFiles={false}
+        allowMultipleSelection={false}
+        storeValue
+      />
+      <Form.Dropdown id="format" title="Format" defaultValue="markdown" storeValue>
+        <Form.Dropdown.Item value="markdown" title="Markdown" icon={Icon.Document} />
+        <Form.Dropdown.Item value="json" title="JSON" icon={Icon.Code} />
+      </Form.Dropdown>
+    </Form>
+  )
+}
@@ -0,0 +1,159 @@
+import { Form, ActionPanel, Action, Icon, showToast, Toast, useNavigation } from "@raycast/api"
+import { useState, useEffect } from "react"
+import { getClient, Agent } from "../lib/opencode"
+import { useProviders } from "../hooks/useProviders"
+import { Project, ProjectSettings, PromptTemplate, getProjectName } from "../hooks/useProjects"
+
+interface ProjectSettingsFormProps {
+  project: Project
+  onSave: (settings: ProjectSettings) => Promise<void>
+}
+
+function parseModelValue(value: string): ProjectSettings["model"] {
+  const [providerID, ...rest] = value.split("/")
+  return providerID && rest.length > 0 ? { providerID, modelID: rest.join("/") } : undefined
+}
+
+export function ProjectSettingsForm({ project, onSave }: ProjectSettingsFormProps) {
+  const { pop } = useNavigation()
+  const { providers, isLoading: modelsLoading } = useProviders()
+  const [agents, setAgents] = useState<Agent[]>([])
+  const [agentsLoading, setAgentsLoading] = useState(true)
+  const [name, setName] = useState(project.name)
+  const [pinned, setPinned] = useState(project.pinned ?? false)
+  const [tags, setTags] = useState((project.tags ?? []).join(", "))
+  const [agent, setAgent] = useState(project.agent ?? "")
+  const [model, setModel] = useState(project.model ? `${project.model.providerID}/${project.model.modelID}` : "")
+  const [templates, setTemplates] = useState<PromptTemplate[]>(project.prompts ?? [])
+
+  useEffect(() => {
+    // A separate client, so the shared one stays on the project the other commands use
+    getClient()
+      .then((client) => client.forDirectory(project.path).listAgents())
+      .then((list) => setAgents(list.filter((a) => !a.hidden && a.mode !== "subagent")))
+      .catch(() => setAgents([]))
+      .finally(() => setAgentsLoading(false))
+  }, [project.path])
+
+  function updateTemplate(index: number, changes: Partial<PromptTemplate>) {
+    setTemplates((current) => current.map((t, i) => (i === index ? { ...t, ...changes } : t)))
+  }
+
+  async function handleSubmit() {
+    const prompts = templates
+      .filter((t) => t.prompt.trim())
+      .map((t) => ({ name: t.name.trim() || t.prompt.trim().split("\n")[0].slice(0, 40), prompt: t.prompt.trim() }))
+
+    const tagList = [...new Set(tags.split(",").map((tag) => tag.trim()).filter(Boolean))]
+
+    await onSave({
+      name,
+      pinned: pinned || undefined,
+      tags: tagList.length > 0 ? tagList : undefined,
+      agent: agent || undefined,
+      model: parseModelValue(model),
+      prompts: prompts.length > 0 ? prompts : undefined,
+    })
+    await showToast({ style: Toast.Style.Success, title: `Saved settings for ${project.name}` })
+    pop()
+  }
+
+  // Keep the saved values selectable while agents and models are still loading or no longer offered
+  const knownAgent = !agent || agents.some((a) => a.name === agent)
+  const knownModel = !model || providers.some((p) => Object.keys(p.models).some((id) => `${p.id}/${id}` === model))
+
+  return (
+    <Form
+      isLoading={agentsLoading || modelsLoading}
+      navigationTitle={`${project.name} Settings`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Settings" icon={Icon.Check} onSubmit={handleSubmit} />
+          <Action
+            title="Add Prompt Template"
+            icon={Icon.Plus}
+            shortcut={{ modifiers: ["cmd"], key: "n" }}
+            onAction={() => setTemplates((current) => [...current, { name: "", prompt: "" }])}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description title="Project" text={project.path} />
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder={getProjectName(project.path)}
+        info="Leave empty to use the folder name"
+        value={name}
+        onChange={setName}
+      />
+      <Form.TextField
+        id="tags"
+        title="Tags"
+        placeholder="work, client"
+        info="Comma-separated. Projects are grouped by tag in Switch Project."
+        value={tags}
+        onChange={setTags}
+      />
+      <Form.Checkbox id="pinned" label="Pin to the top of the list" value={pinned} onChange={setPinned} />
+      <Form.Separator />
+      <Form.Dropdown
+        id="agent"
+        title="Default Agent"
+        info="Selected in Ask OpenCode when switching to this project"
+        value={agent}
+        onChange={setAgent}
+      >
+        <Form.Dropdown.Item value="" title="Last Used" />
+        {!knownAgent && <Form.Dropdown.Item value={agent} title={agent} />}
+        {agents.map((a) => (
+          <Form.Dropdown.Item key={a.name} value={a.name} title={a.name} />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown
+        id="model"
+        title="Default Model"
+        info="Selected in Ask OpenCode when switching to this project"
+        value={model}
+        onChange={setModel}
+      >
+        <Form.Dropdown.Item value="" title="Last Used" />
+        {!knownModel && <Form.Dropdown.Item value={model} title={model} />}
+        {providers.map((provider) => (
+          <Form.Dropdown.Section key={provider.id} title={provider.name}>
+            {Object.values(provider.models).map((m) => (
+              <Form.Dropdown.Item key={m.id} value={`${provider.id}/${m.id}`} title={m.name} />
+            ))}
+          </Form.Dropdown.Section>
+        ))}
+      </Form.Dropdown>
+      <Form.Separator />
+      <Form.Description
+        title="Prompt Templates"
+        text={
+          templates.length === 0
+            ? "No templates yet. Press ⌘N to add one."
+            : "Shown in Ask OpenCode for this project. Clear a template's prompt to remove it."
+        }
+      />
+      {templates.map((template, index) => [
+        <Form.TextField
+          key={`name-${index}`}
+          id={`template-name-${index}`}
+          title="Name"
+          placeholder="Review changes"
+          value={template.name}
+          onChange={(name) => updateTemplate(index, { name })}
+        />,
+        <Form.TextArea
+          key={`prompt-${index}`}
+          id={`template-prompt-${index}`}
+          title="Prompt"
+          placeholder="Review the uncommitted changes in this repository"
+          value={template.prompt}
+          onChange={(prompt) => updateTemplate(index, { prompt })}
+        />,
+      ])}
+    </Form>
+  )
+}
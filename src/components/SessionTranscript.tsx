@@ -0,0 +1,198 @@
+import {
+  Detail,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  getPreferenceValues,
+  Keyboard,
+} from "@raycast/api"
+import { useState, useEffect } from "react"
+import { getClient, Message, Session } from "../lib/opencode"
+import { handoffToOpenCode, copySessionCommand, continueInRaycast, TerminalApp } from "../lib/handoff"
+import { getMessageText } from "../lib/conversation"
+import { describeMessage, renderMessage } from "../lib/render"
+import { homedir } from "os"
+
+interface Preferences {
+  handoffMethod: "terminal" | "desktop"
+  terminalApp: TerminalApp
+}
+
+const PAGE_SIZE = 50
+
+interface SessionTranscriptProps {
+  session: Session
+  /** Message to open the transcript at, such as a search match */
+  focusMessageId?: string
+}
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toLocaleString()
+}
+
+export function SessionTranscript({ session, focusMessageId }: SessionTranscriptProps) {
+  const preferences = getPreferenceValues<Preferences>()
+  const [messages, setMessages] = useState<Message[]>([])
+  const [limit, setLimit] = useState(PAGE_SIZE)
+  // Can exceed `limit` when finding the focused message took a larger page
+  const [loadedLimit, setLoadedLimit] = useState(PAGE_SIZE)
+  const [isLoading, setIsLoading] = useState(true)
+  const [showDetails, setShowDetails] = useState(false)
+  const [showFromFocus, setShowFromFocus] = useState(!!focusMessageId)
+
+  async function loadMessages(requestedLimit: number) {
+    setIsLoading(true)
+    try {
+      const client = await getClient(session.directory)
+      let loaded = await client.getSessionMessages(session.id, requestedLimit)
+      // Keep fetching further back until the focused message is loaded or the session runs out
+      let fetchLimit = requestedLimit
+      while (
+        showFromFocus &&
+        focusMessageId &&
+        loaded.length >= fetchLimit &&
+        !loaded.some((m) => m.info.id === focusMessageId)
+      ) {
+        fetchLimit *= 4
+        loaded = await client.getSessionMessages(session.id, fetchLimit)
+      }
+      setLoadedLimit(fetchLimit)
+      setMessages(loaded)
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to load transcript",
+        message: error instanceof Error ? error.message : "Unknown error",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadMessages(limit)
+  }, [session.id, limit])
+
+  // The endpoint returns the most recent `limit` messages, so a full page means there may be more
+  const hasOlderMessages = messages.length >= loadedLimit
+
+  const focusIndex = focusMessageId ? messages.findIndex((m) => m.info.id === focusMessageId) : -1
+  const isFocused = showFromFocus && focusIndex > 0
+  const visibleMessages = isFocused ? messages.slice(focusIndex) : messages
+
+  const sections = visibleMessages.map((message) => {
+    const heading = `${describeMessage(message)}${message.info.id === focusMessageId ? " · Search Match" : ""}`
+    return `### ${heading}\n_${formatTimestamp(message.info.time.created)}_\n\n${
+      renderMessage(message, { expanded: showDetails }) || "_No content_"
+    }`
+  })
+  if (isFocused) {
+    sections.unshift(
+      `_Showing from the matching message. ${focusIndex} earlier message${
+        focusIndex === 1 ? " is" : "s are"
+      } hidden; use Show Full Transcript to see them._`
+    )
+  } else if (hasOlderMessages) {
+    sections.unshift("_Older messages are not loaded yet. Use Load Older Messages to see them._")
+  }
+
+  const markdown =
+    sections.length > 0 ? sections.join("\n\n---\n\n") : isLoading ? "" : "_This session has no messages._"
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      navigationTitle={session.title || "Untitled Session"}
+      markdown={markdown}
+      metadata={
+        <Detail.Metadata>
+          {session.directory && (
+            <Detail.Metadata.Label title="Directory" text={session.directory.replace(homedir(), "~")} />
+          )}
+          <Detail.Metadata.Label title="Created" text={formatTimestamp(session.time.created)} />
+          <Detail.Metadata.Label title="Updated" text={formatTimestamp(session.time.updated)} />
+          <Detail.Metadata.Label
+            title="Messages"
+            text={hasOlderMessages ? `${messages.length}+` : `${messages.length}`}
+          />
+          {session.share?.url && <Detail.Metadata.Link title="Shared" target={session.share.url} text="Open" />}
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          <ActionPanel.Section title="Open">
+            <Action
+              title="Continue in Raycast"
+              icon={Icon.Message}
+              onAction={() => continueInRaycast(session.id, session.directory)}
+            />
+            <Action
+              title="Continue in OpenCode"
+              icon={Icon.Terminal}
+              shortcut={Keyboard.Shortcut.Common.Open}
+              onAction={() =>
+                handoffToOpenCode(session.id, preferences.handoffMethod, session.directory, preferences.terminalApp)
+              }
+            />
+            <Action
+              title="Copy Session Command"
+              icon={Icon.Clipboard}
+              shortcut={Keyboard.Shortcut.Common.Copy}
+              onAction={() => copySessionCommand(session.id, session.directory)}
+            />
+          </ActionPanel.Section>
+          <ActionPanel.Section title="Transcript">
+            {messages.length > 0 && (
+              <ActionPanel.Submenu
+                title="Copy Message"
+                icon={Icon.CopyClipboard}
+                shortcut={{ modifiers: ["cmd", "opt"], key: "c" }}
+              >
+                {[...messages].reverse().map((message) => {
+                  const text = getMessageText(message) || renderMessage(message, { expanded: true })
+                  return (
+                    <Action.CopyToClipboard
+                      key={message.info.id}
+                      title={`${describeMessage(message)}: ${text.slice(0, 60).replace(/\s+/g, " ")}`}
+                      content={text}
+                    />
+                  )
+                })}
+              </ActionPanel.Submenu>
+            )}
+            {isFocused && (
+              <Action
+                title="Show Full Transcript"
+                icon={Icon.List}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+                onAction={() => setShowFromFocus(false)}
+              />
+            )}
+            {hasOlderMessages && !isFocused && (
+              <Action
+                title="Load Older Messages"
+                icon={Icon.ArrowUp}
+                shortcut={{ modifiers: ["cmd"], key: "arrowUp" }}
+                onAction={() => setLimit(loadedLimit + PAGE_SIZE)}
+              />
+            )}
+            <Action
+              title={showDetails ? "Hide Tool Details" : "Show Tool Details"}
+              icon={showDetails ? Icon.EyeDisabled : Icon.Eye}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+              onAction={() => setShowDetails((value) => !value)}
+            />
+            <Action
+              title="Refresh"
+              icon={Icon.ArrowClockwise}
+              shortcut={Keyboard.Shortcut.Common.Refresh}
+              onAction={() => loadMessages(loadedLimit)}
+            />
+          </ActionPanel.Section>
+        </ActionPanel>
+      }
+    />
+  )
+}
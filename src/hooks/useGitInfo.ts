@@ -0,0 +1,29 @@
+import { useState, useEffect } from "react"
+import { GitInfo, getGitInfo } from "../lib/git"
+import { settleWithConcurrency } from "../lib/concurrency"
+
+// A few git processes at a time keeps a long project list from spawning hundreds at once
+const CONCURRENCY = 4
+
+/** Git metadata for each directory, filled in as it's read. Missing keys are still loading. */
+export function useGitInfo(directories: string[]): Record<string, GitInfo | null> {
+  const [info, setInfo] = useState<Record<string, GitInfo | null>>({})
+  const key = directories.join("\n")
+
+  useEffect(() => {
+    let cancelled = false
+
+    settleWithConcurrency(directories, CONCURRENCY, async (directory) => {
+      if (cancelled) return
+      const result = await getGitInfo(directory)
+      if (!cancelled) {
+        setInfo((current) => ({ ...current, [directory]: result }))
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [key])
+
+  return info
+}
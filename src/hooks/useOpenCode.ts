@@ -1,6 +1,79 @@
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import { showToast, Toast } from "@raycast/api"
-import { getClient, Session, Agent, Command, Message, resetClient } from "../lib/opencode"
+import {
+  getClient,
+  Session,
+  Agent,
+  Command,
+  Message,
+  OpenCodeEvent,
+  PartInput,
+  TextPart,
+  PromptAbortedError,
+  OpenCodeClient,
+  EventSubscription,
+  resetClient,
+} from "../lib/opencode"
+
+interface PromptOptions {
+  agent?: string
+  model: { providerID: string; modelID: string }
+  /** Files and extra context sent with the prompt text */
+  attachments?: PartInput[]
+  /** Called with the accumulated assistant text as it streams in */
+  onPartial?: (text: string) => void
+  /**
+   * Called once the target session is known, and again with the user message ID
+   * once the server has accepted the prompt
+   */
+  onTracked?: (ids: { sessionID: string; messageID?: string }) => void
+}
+
+/**
+ * Accumulate streamed text parts of assistant messages in one session.
+ * User message parts are echoed on the same feed, so parts are only kept once
+ * their message is known to be an assistant reply.
+ */
+function createStreamAccumulator(
+  sessionId: string,
+  onText?: (text: string) => void,
+  onUserMessage?: (messageID: string) => void
+) {
+  const assistantMessages = new Set<string>()
+  const userMessages = new Set<string>()
+  const parts = new Map<string, { messageID: string; text: string }>()
+
+  return (event: OpenCodeEvent) => {
+    if (event.type === "message.updated") {
+      const { info } = event.properties
+      if (info.sessionID !== sessionId) return
+      if (info.role === "assistant") {
+        assistantMessages.add(info.id)
+      } else if (!userMessages.has(info.id)) {
+        userMessages.add(info.id)
+        onUserMessage?.(info.id)
+      }
+      return
+    }
+
+    if (event.type !== "message.part.updated") return
+
+    const { part, delta } = event.properties
+    if (part.sessionID !== sessionId || part.type !== "text" || !part.id) return
+
+    const previous = parts.get(part.id)?.text ?? ""
+    const text = typeof part.text === "string" ? part.text : previous + (delta ?? "")
+    parts.set(part.id, { messageID: part.messageID, text })
+
+    const streamed = Array.from(parts.values())
+      .filter((p) => assistantMessages.has(p.messageID))
+      .map((p) => p.text)
+      .join("\n")
+    if (streamed) {
+      onText?.(streamed)
+    }
+  }
+}
 
 interface UseOpenCodeResult {
   isConnected: boolean
@@ -9,14 +82,17 @@ interface UseOpenCodeResult {
   agents: Agent[]
   commands: Command[]
   currentSession: Session | null
-  sendPrompt: (
-    text: string,
-    options: {
-      agent?: string
-      model: { providerID: string; modelID: string }
-    }
-  ) => Promise<string>
+  messages: Message[]
+  sendPrompt: (text: string, options: PromptOptions) => Promise<string>
+  runCommand: (command: string, args: string, options: PromptOptions) => Promise<string>
+  compactSession: (model: { providerID: string; modelID: string }) => Promise<void>
+  shareSession: () => Promise<Session>
+  unshareSession: () => Promise<Session>
+  abortPrompt: () => Promise<void>
   createSession: (title?: string) => Promise<Session>
+  refreshMessages: () => Promise<void>
+  resumeSession: (sessionId: string, directory?: string) => Promise<Session>
+  resetSession: () => void
   setWorkingDirectory: (dir: string) => void
   reconnect: () => Promise<void>
 }
@@ -28,6 +104,9 @@ export function useOpenCode(initialDirectory?: string): UseOpenCodeResult {
   const [agents, setAgents] = useState<Agent[]>([])
   const [commands, setCommands] = useState<Command[]>([])
   const [currentSession, setCurrentSession] = useState<Session | null>(null)
+  const [messages, setMessages] = useState<Message[]>([])
+  // The session is unknown while it is being created, but Stop must still cancel the prompt
+  const inFlightRef = useRef<{ sessionId?: string; controller: AbortController } | null>(null)
   const [workingDirectory, setWorkingDirectory] = useState<string | undefined>(initialDirectory)
 
   const connect = useCallback(async () => {
@@ -72,32 +151,76 @@ export function useOpenCode(initialDirectory?: string): UseOpenCodeResult {
       const client = await getClient(workingDirectory)
       const session = await client.createSession(title)
       setCurrentSession(session)
+      setMessages([])
       return session
     },
     [workingDirectory]
   )
 
-  const sendPrompt = useCallback(
+  /**
+   * Run a request that produces an assistant message in the current session,
+   * creating the session first if needed. Streaming, tracking and abort are shared
+   * between prompts and commands.
+   */
+  const runInSession = useCallback(
     async (
-      text: string,
-      options: {
-        agent?: string
-        model: { providerID: string; modelID: string }
-      }
+      titleText: string,
+      options: PromptOptions,
+      execute: (
+        client: OpenCodeClient,
+        sessionId: string,
+        options: Omit<PromptOptions, "onPartial" | "onTracked"> & { signal: AbortSignal }
+      ) => Promise<Message>
     ): Promise<string> => {
-      const client = await getClient(workingDirectory)
+      const controller = new AbortController()
+      const inFlight: { sessionId?: string; controller: AbortController } = { controller }
+      inFlightRef.current = inFlight
 
+      const { onPartial, onTracked, ...promptOptions } = options
+      let subscription: EventSubscription | null = null
       let session = currentSession
-      if (!session) {
-        const titlePreview = text.slice(0, 50) + (text.length > 50 ? "..." : "")
-        session = await client.createSession(`Raycast: ${titlePreview}`)
-        setCurrentSession(session)
+      let client: OpenCodeClient
+      let response: Message
+      try {
+        client = await getClient(workingDirectory)
+        if (!session) {
+          const titlePreview = titleText.slice(0, 50) + (titleText.length > 50 ? "..." : "")
+          session = await client.createSession(`Raycast: ${titlePreview}`)
+          setCurrentSession(session)
+        }
+
+        const sessionID = session.id
+        inFlight.sessionId = sessionID
+        // Stop may have been pressed while the session was created
+        if (controller.signal.aborted) throw new PromptAbortedError()
+        onTracked?.({ sessionID })
+
+        subscription =
+          onPartial || onTracked
+            ? client.subscribeEvents(
+                createStreamAccumulator(sessionID, onPartial, (messageID) => onTracked?.({ sessionID, messageID }))
+              )
+            : null
+
+        // Without the event feed the prompt still completes, just without streaming
+        await subscription?.ready.catch(() => undefined)
+        // Stop may have been pressed while the feed connected
+        if (controller.signal.aborted) throw new PromptAbortedError()
+        response = await execute(client, sessionID, { ...promptOptions, signal: controller.signal })
+      } catch (err) {
+        if (controller.signal.aborted) {
+          throw new PromptAbortedError()
+        }
+        throw err
+      } finally {
+        subscription?.close()
+        if (inFlightRef.current === inFlight) inFlightRef.current = null
       }
 
-      const response = await client.sendPrompt(session.id, text, options)
+      setMessages(await client.getSessionMessages(session.id))
 
       const textParts = response.parts
-        .filter((p): p is typeof p & { text: string } => p.type === "text" && typeof p.text === "string")
+        .filter((p): p is TextPart => p.type === "text" && typeof p.text === "string")
         .map((p) => p.text)
 
       return textParts.join("\n")
@@ -105,17 +228,101 @@ export function useOpenCode(initialDirectory?: string): UseOpenCodeResult {
     [workingDirectory, currentSession]
   )
 
+  const sendPrompt = useCallback(
+    (text: string, options: PromptOptions): Promise<string> =>
+      runInSession(text, options, (client, sessionId, promptOptions) =>
+        client.sendPrompt(sessionId, text, promptOptions)
+      ),
+    [runInSession]
+  )
+
+  const runCommand = useCallback(
+    (command: string, args: string, options: PromptOptions): Promise<string> =>
+      runInSession(`/${command} ${args}`.trim(), options, (client, sessionId, promptOptions) =>
+        client.runCommand(sessionId, command, args, promptOptions)
+      ),
+    [runInSession]
+  )
+
+  const requireSession = useCallback(async () => {
+    if (!currentSession) {
+      throw new Error("No active session")
+    }
+    return { client: await getClient(workingDirectory), session: currentSession }
+  }, [workingDirectory, currentSession])
+
+  const compactSession = useCallback(
+    async (model: { providerID: string; modelID: string }) => {
+      const { client, session } = await requireSession()
+      await client.summarizeSession(session.id, model)
+      setMessages(await client.getSessionMessages(session.id))
+    },
+    [requireSession]
+  )
+
+  const shareSession = useCallback(async (): Promise<Session> => {
+    const { client, session } = await requireSession()
+    const updated = await client.shareSession(session.id)
+    setCurrentSession(updated)
+    return updated
+  }, [requireSession])
+
+  const unshareSession = useCallback(async (): Promise<Session> => {
+    const { client, session } = await requireSession()
+    const updated = await client.unshareSession(session.id)
+    setCurrentSession(updated)
+    return updated
+  }, [requireSession])
+
+  const abortPrompt = useCallback(async () => {
+    const inFlight = inFlightRef.current
+    if (!inFlight) return
+
+    inFlight.controller.abort()
+    // Nothing was sent yet when the session is still being created
+    if (!inFlight.sessionId) return
+    try {
+      const client = await getClient(workingDirectory)
+      await client.abortSession(inFlight.sessionId)
+    } catch {
+      // The local request is already cancelled; the server may have finished on its own
+    }
+  }, [workingDirectory])
+
+  const refreshMessages = useCallback(async () => {
+    if (!currentSession) return
+    const client = await getClient(workingDirectory)
+    setMessages(await client.getSessionMessages(currentSession.id))
+  }, [workingDirectory, currentSession])
+
+  const resumeSession = useCallback(async (sessionId: string, directory?: string): Promise<Session> => {
+    // Sessions belong to a project, so look them up from their own directory
+    const client = await getClient(directory)
+    const session = await client.getSession(sessionId)
+    const history = await client.getSessionMessages(session.id)
+
+    setWorkingDirectory(session.directory || directory)
+    setCurrentSession(session)
+    setMessages(history)
+    return session
+  }, [])
+
+  const resetSession = useCallback(() => {
+    setCurrentSession(null)
+    setMessages([])
+  }, [])
+
   const handleSetWorkingDirectory = useCallback((dir: string) => {
     setWorkingDirectory(dir)
     resetClient()
-    setCurrentSession(null)
-  }, [])
+    resetSession()
+  }, [resetSession])
 
   const reconnect = useCallback(async () => {
     resetClient()
-    setCurrentSession(null)
+    resetSession()
     await connect()
-  }, [connect])
+  }, [connect, resetSession])
 
   return {
     isConnected,
@@ -124,8 +331,17 @@ export function useOpenCode(initialDirectory?: string): UseOpenCodeResult {
     agents,
     commands,
     currentSession,
+    messages,
     sendPrompt,
+    runCommand,
+    compactSession,
+    shareSession,
+    unshareSession,
+    abortPrompt,
     createSession,
+    refreshMessages,
+    resumeSession,
+    resetSession,
     setWorkingDirectory: handleSetWorkingDirectory,
     reconnect,
   }
@@ -1,7 +1,9 @@
 import { useState, useEffect } from "react"
 import { readdirSync, statSync, existsSync } from "fs"
 import { homedir } from "os"
-import { join, dirname, basename } from "path"
+import { join, dirname, basename, isAbsolute, resolve } from "path"
+import { FilePartInput } from "../lib/opencode"
+import { createFileAttachment } from "../lib/attachments"
 
 export interface PathSuggestion {
   path: string
@@ -86,26 +88,57 @@ export function usePathAutocomplete(query: string) {
   return { suggestions, isActive }
 }
 
-export function extractPathFromQuery(query: string): { cleanQuery: string; directory?: string } {
-  const match = query.match(/@([\w\/~.-]+)\s/)
-  
-  if (!match) {
-    return { cleanQuery: query }
-  }
-
-  const pathPart = match[1]
-  const expandedPath = pathPart.replace(/^~/, homedir())
-  
-  try {
-    if (existsSync(expandedPath)) {
-      const stat = statSync(expandedPath)
-      const directory = stat.isDirectory() ? expandedPath : dirname(expandedPath)
-      const cleanQuery = query.replace(match[0], "").trim()
-      return { cleanQuery, directory }
-    }
-  } catch {
-    // Path doesn't exist, ignore
-  }
+export interface ExtractedPaths {
+  cleanQuery: string
+  /** First referenced directory, used as the working directory */
+  directory?: string
+  /** Every referenced file, sent with the prompt as a file part */
+  files: FilePartInput[]
+}
+
+/**
+ * Resolve `@path` references in a query. Directory references are removed from the text,
+ * file references stay in it and are also returned as attachments. Relative paths resolve
+ * against `baseDirectory`; references that do not exist on disk are left untouched.
+ * A bare name like `@README.md` only counts as a file, so it can't switch the working directory.
+ */
+export function extractPathFromQuery(query: string, baseDirectory?: string): ExtractedPaths {
+  let directory: string | undefined
+  const files: FilePartInput[] = []
+
+  const cleanQuery = query
+    .replace(/(^|\s)@([\w\/~.-]+)(?=\s|$)/g, (reference, leading: string, pathPart: string) => {
+      const expandedPath = pathPart.replace(/^~/, homedir())
+      const isBareName = !isAbsolute(expandedPath) && !pathPart.includes("/")
+      const absolutePath = isAbsolute(expandedPath)
+        ? expandedPath
+        : baseDirectory
+          ? resolve(baseDirectory, expandedPath)
+          : null
+      if (!absolutePath) return reference
+
+      try {
+        if (!existsSync(absolutePath)) return reference
+
+        if (statSync(absolutePath).isDirectory()) {
+          if (isBareName) return reference
+          directory = directory ?? absolutePath
+          return leading
+        }
+
+        const attachment = createFileAttachment(absolutePath)
+        if (!files.some((f) => f.url === attachment.url)) {
+          files.push(attachment)
+        }
+        // Keep file references in the text so the question still reads naturally
+        return reference
+      } catch {
+        // Unreadable path, keep it as plain text
+        return reference
+      }
+    })
+    .replace(/\s{2,}/g, " ")
+    .trim()
 
-  return { cleanQuery: query.replace(match[0], "").trim() }
+  return { cleanQuery, directory, files }
 }
@@ -1,24 +1,44 @@
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import { LocalStorage } from "@raycast/api"
+import { ModelRef } from "../lib/models"
+import { DiscoveredProject } from "../lib/project-discovery"
 
 const STORAGE_KEY = "opencode-recent-projects"
-const MAX_PROJECTS = 20
+const MAX_PROJECTS = 100
+
+export interface PromptTemplate {
+  name: string
+  prompt: string
+}
 
 export interface Project {
   path: string
+  /** Display name, the folder name unless renamed */
   name: string
   lastUsed: number
+  pinned?: boolean
+  tags?: string[]
+  /** Agent to select when switching to this project */
+  agent?: string
+  /** Model to select when switching to this project */
+  model?: ModelRef
+  prompts?: PromptTemplate[]
 }
 
+export type ProjectSettings = Partial<Pick<Project, "name" | "pinned" | "tags" | "agent" | "model" | "prompts">>
+
 interface UseProjectsResult {
   projects: Project[]
   isLoading: boolean
   addProject: (path: string) => Promise<void>
+  updateProject: (path: string, settings: ProjectSettings) => Promise<void>
+  /** Add projects found elsewhere that aren't listed yet, returning how many were new */
+  importProjects: (found: DiscoveredProject[]) => Promise<number>
   removeProject: (path: string) => Promise<void>
   clearProjects: () => Promise<void>
 }
 
-function getProjectName(path: string): string {
+export function getProjectName(path: string): string {
   const parts = path.split("/")
   return parts[parts.length - 1] || path
 }
@@ -26,6 +46,8 @@ function getProjectName(path: string): string {
 export function useProjects(): UseProjectsResult {
   const [projects, setProjects] = useState<Project[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  // Settings forms hold on to callbacks across renders, so writes start from the latest list
+  const projectsRef = useRef<Project[]>([])
 
   useEffect(() => {
     async function loadProjects() {
@@ -33,6 +55,7 @@ export function useProjects(): UseProjectsResult {
         const stored = await LocalStorage.getItem<string>(STORAGE_KEY)
         if (stored) {
           const parsed = JSON.parse(stored) as Project[]
+          projectsRef.current = parsed
           setProjects(parsed)
         }
       } catch {
@@ -45,30 +68,67 @@ export function useProjects(): UseProjectsResult {
   }, [])
 
   const saveProjects = useCallback(async (newProjects: Project[]) => {
+    projectsRef.current = newProjects
     setProjects(newProjects)
     await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(newProjects))
   }, [])
 
   const addProject = useCallback(
     async (path: string) => {
-      const existing = projects.filter((p) => p.path !== path)
+      const previous = projectsRef.current.find((p) => p.path === path)
+      const existing = projectsRef.current.filter((p) => p.path !== path)
       const newProject: Project = {
+        ...previous,
         path,
-        name: getProjectName(path),
+        name: previous?.name || getProjectName(path),
         lastUsed: Date.now(),
       }
       const updated = [newProject, ...existing].slice(0, MAX_PROJECTS)
       await saveProjects(updated)
     },
-    [projects, saveProjects]
+    [saveProjects]
+  )
+
+  const updateProject = useCallback(
+    async (path: string, settings: ProjectSettings) => {
+      const name = settings.name === undefined ? undefined : settings.name.trim() || getProjectName(path)
+      const updated = projectsRef.current.map((p) =>
+        // An empty name goes back to the folder name
+        p.path === path ? { ...p, ...settings, name: name ?? p.name } : p
+      )
+      await saveProjects(updated)
+    },
+    [saveProjects]
+  )
+
+  const importProjects = useCallback(
+    async (found: DiscoveredProject[]) => {
+      const known = new Set(projectsRef.current.map((p) => p.path))
+      const candidates: Project[] = []
+      for (const { path, lastUsed } of found) {
+        if (known.has(path)) continue
+        known.add(path)
+        candidates.push({ path, name: getProjectName(path), lastUsed })
+      }
+
+      // Existing projects are never dropped; only the most recent new ones fill the space left
+      const room = Math.max(0, MAX_PROJECTS - projectsRef.current.length)
+      const added = candidates.sort((a, b) => b.lastUsed - a.lastUsed).slice(0, room)
+      if (added.length === 0) return 0
+
+      const updated = [...projectsRef.current, ...added].sort((a, b) => b.lastUsed - a.lastUsed)
+      await saveProjects(updated)
+      return added.length
+    },
+    [saveProjects]
   )
 
   const removeProject = useCallback(
     async (path: string) => {
-      const updated = projects.filter((p) => p.path !== path)
+      const updated = projectsRef.current.filter((p) => p.path !== path)
       await saveProjects(updated)
     },
-    [projects, saveProjects]
+    [saveProjects]
   )
 
   const clearProjects = useCallback(async () => {
@@ -79,6 +139,8 @@ export function useProjects(): UseProjectsResult {
     projects,
     isLoading,
     addProject,
+    updateProject,
+    importProjects,
     removeProject,
     clearProjects,
   }
@@ -1,20 +1,13 @@
-import { useState, useEffect } from "react";
-import { getServerUrl } from "../lib/opencode";
-import { homedir } from "os";
-import { readFileSync, existsSync } from "fs";
-import { join } from "path";
-
-export interface Model {
-  id: string;
-  providerID: string;
-  name: string;
-}
-
-export interface Provider {
-  id: string;
-  name: string;
-  models: Record<string, Model>;
-}
+import { useState, useEffect, useCallback } from "react";
+import { showToast, Toast } from "@raycast/api";
+import { getClient, Provider, ProviderResponse } from "../lib/opencode";
+import {
+  LocalModelConfig,
+  ModelRef,
+  getLocalModelConfig,
+  recordRecentModel,
+  toggleFavoriteModel,
+} from "../lib/models";
 
 export interface FavoriteModel {
   providerID: string;
@@ -23,33 +16,43 @@ export interface FavoriteModel {
   modelName: string;
 }
 
-export interface ProviderResponse {
-  all: Provider[];
-  default: Record<string, string>;
-}
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 500;
 
-interface LocalModelConfig {
-  recent: Array<{ providerID: string; modelID: string }>;
-  favorite: Array<{ providerID: string; modelID: string }>;
+function resolveModels(providers: Provider[], items: ModelRef[] | undefined): FavoriteModel[] {
+  if (!items) return [];
+  return items
+    .map((item) => {
+      const provider = providers.find((p) => p.id === item.providerID);
+      if (!provider || !provider.models[item.modelID]) return null;
+      return {
+        providerID: item.providerID,
+        providerName: provider.name,
+        modelID: item.modelID,
+        modelName: provider.models[item.modelID].name,
+      };
+    })
+    .filter((x): x is FavoriteModel => x !== null);
 }
 
-function getLocalModelConfig(): LocalModelConfig | null {
-  const possiblePaths = [
-    join(homedir(), ".local", "state", "opencode", "model.json"),
-    join(homedir(), "Library", "Application Support", "opencode", "model.json"),
-  ];
-  
-  for (const path of possiblePaths) {
-    if (existsSync(path)) {
-      try {
-        const content = readFileSync(path, "utf-8");
-        return JSON.parse(content) as LocalModelConfig;
-      } catch {
-        continue;
+/**
+ * Load providers through the shared client, which makes sure the server is up first.
+ * Retries with a growing delay, since a freshly started server can refuse the first requests.
+ */
+async function loadProviders(): Promise<ProviderResponse> {
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const client = await getClient();
+      return await client.listProviders();
+    } catch (err) {
+      lastError = err;
+      if (attempt < MAX_ATTEMPTS) {
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * attempt));
       }
     }
   }
-  return null;
+  throw lastError;
 }
 
 export function useProviders() {
@@ -60,57 +63,93 @@ export function useProviders() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
 
-  useEffect(() => {
-    async function fetchProviders() {
-      const baseUrl = getServerUrl() || "http://localhost:4096";
-      try {
-        const response = await fetch(`${baseUrl}/provider`);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch providers: ${response.statusText}`);
-        }
-        const data = (await response.json()) as ProviderResponse;
-        setProviders(data.all);
-        
-        const localConfig = getLocalModelConfig();
-        
-        const resolveFavorites = (
-          items: Array<{ providerID: string; modelID: string }> | undefined
-        ): FavoriteModel[] => {
-          if (!items) return [];
-          return items
-            .map((item) => {
-              const provider = data.all.find((p) => p.id === item.providerID);
-              if (!provider || !provider.models[item.modelID]) return null;
-              return {
-                providerID: item.providerID,
-                providerName: provider.name,
-                modelID: item.modelID,
-                modelName: provider.models[item.modelID].name,
-              };
-            })
-            .filter((x): x is FavoriteModel => x !== null);
-        };
-        
-        const userFavorites = resolveFavorites(localConfig?.favorite);
-        const userRecent = resolveFavorites(localConfig?.recent);
-        
-        setFavorites(userFavorites);
-        setRecentModels(userRecent);
-        
-        if (userFavorites.length > 0) {
-          setDefaultModel({ providerID: userFavorites[0].providerID, modelID: userFavorites[0].modelID });
-        } else if (userRecent.length > 0) {
-          setDefaultModel({ providerID: userRecent[0].providerID, modelID: userRecent[0].modelID });
+  const fetchProviders = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await loadProviders();
+      setProviders(data.all);
+
+      const localConfig = getLocalModelConfig();
+
+      const userFavorites = resolveModels(data.all, localConfig?.favorite);
+      const userRecent = resolveModels(data.all, localConfig?.recent);
+
+      setFavorites(userFavorites);
+      setRecentModels(userRecent);
+
+      if (userFavorites.length > 0) {
+        setDefaultModel({ providerID: userFavorites[0].providerID, modelID: userFavorites[0].modelID });
+      } else if (userRecent.length > 0) {
+        setDefaultModel({ providerID: userRecent[0].providerID, modelID: userRecent[0].modelID });
+      } else {
+        // Fall back to the server's default for the first provider that has one
+        const provider = data.all.find((p) => data.default[p.id] && p.models[data.default[p.id]]);
+        if (provider) {
+          setDefaultModel({ providerID: provider.id, modelID: data.default[provider.id] });
         }
-      } catch (err) {
-        setError(err instanceof Error ? err : new Error(String(err)));
-      } finally {
-        setIsLoading(false);
       }
+    } catch (err) {
+      const loadError = err instanceof Error ? err : new Error(String(err));
+      setError(loadError);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to load models",
+        message: loadError.message,
+        primaryAction: {
+          title: "Retry",
+          onAction: () => {
+            fetchProviders();
+          },
+        },
+      });
+    } finally {
+      setIsLoading(false);
     }
+  }, []);
 
+  useEffect(() => {
     fetchProviders();
-  }, []);
+  }, [fetchProviders]);
+
+  const applyLocalConfig = useCallback(
+    (config: LocalModelConfig) => {
+      setFavorites(resolveModels(providers, config.favorite));
+      setRecentModels(resolveModels(providers, config.recent));
+    },
+    [providers]
+  );
+
+  const updateModelConfig = useCallback(
+    async (update: () => LocalModelConfig, failureTitle: string) => {
+      try {
+        applyLocalConfig(update());
+      } catch (err) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: failureTitle,
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+    [applyLocalConfig]
+  );
+
+  /** Push a model to the front of OpenCode's recent list */
+  const rememberModel = useCallback(
+    (ref: ModelRef) => updateModelConfig(() => recordRecentModel(ref), "Failed to save recent model"),
+    [updateModelConfig]
+  );
+
+  const toggleFavorite = useCallback(
+    (ref: ModelRef) => updateModelConfig(() => toggleFavoriteModel(ref), "Failed to update favorites"),
+    [updateModelConfig]
+  );
+
+  const isFavorite = useCallback(
+    (ref: ModelRef) => favorites.some((f) => f.providerID === ref.providerID && f.modelID === ref.modelID),
+    [favorites]
+  );
 
   return {
     providers,
@@ -119,5 +158,9 @@ export function useProviders() {
     defaultModel,
     isLoading,
     error,
+    retry: fetchProviders,
+    rememberModel,
+    toggleFavorite,
+    isFavorite,
   };
 }
@@ -1,76 +1,125 @@
 import { useState, useEffect, useRef, useCallback } from "react"
-import { LocalStorage } from "@raycast/api"
-import { Index } from "flexsearch"
-import { Session, getClient, Message } from "../lib/opencode"
-
-interface IndexedSession {
-  id: string
-  title: string
-  directory: string
-  content: string
-  updated: number
+import { LocalStorage, environment } from "@raycast/api"
+import path from "path"
+import { Session, getClient, Message, OpenCodeClient } from "../lib/opencode"
+import { parseSessionQuery, matchesSessionQuery, hasQualifiers } from "../lib/session-query"
+import { buildSnippet } from "../lib/snippets"
+import { rankCandidates } from "../lib/ranking"
+import { isInProject } from "../lib/active-project"
+import {
+  IndexedMessage,
+  IndexedSession,
+  SessionIndex,
+  SessionInfo,
+  addSessionDocuments,
+  createSessionIndex,
+  removeSessionDocuments,
+  searchSessionIndex,
+} from "../lib/search-index"
+import { SearchStore } from "../lib/search-store"
+import { settleWithConcurrency } from "../lib/concurrency"
+
+/** Why a session matched a search */
+export interface SearchMatch {
+  /** Matching message, or undefined when only the title or directory matched */
+  messageId?: string
+  /** Markdown excerpt with the query terms in bold */
+  snippet: string
 }
 
-interface CachedIndex {
-  version: number
-  sessionHashes: Record<string, string>
-  indexedSessions: IndexedSession[]
+/** Version 2 of the LocalStorage cache, before the index moved to the support directory */
+interface CachedIndexV2 {
+  version: 2
+  sessions: (SessionInfo & { messages: IndexedMessage[] })[]
 }
 
-const CACHE_KEY = "opencode-session-search-index"
-const CACHE_VERSION = 1
-const MESSAGES_PER_SESSION = 10
+/** Version 1 kept the text of the last 10 messages as one string per session */
+interface CachedIndexV1 {
+  version: 1
+  indexedSessions: { id: string; title: string; directory: string; content: string; updated: number }[]
+}
+
+const LEGACY_CACHE_KEY = "opencode-session-search-index"
+// Messages fetched when looking for a session's cursor, growing until the cursor turns up
+const INITIAL_FETCH_SIZE = 20
+// Tool output can be whole files; the start is enough to find it again
+const MAX_TOOL_OUTPUT_LENGTH = 2000
+// Sessions, not messages, so a common term still finds every session it is in
+const SEARCH_LIMIT = 500
+// Sessions fetched at once while indexing; each can take several requests
+const INDEX_CONCURRENCY = 6
 
 function hashSession(session: Session): string {
   return `${session.time.updated}`
 }
 
-function extractTextFromMessages(messages: Message[]): string {
-  const recentMessages = messages.slice(-MESSAGES_PER_SESSION)
-  return recentMessages
-    .flatMap((msg) =>
-      msg.parts
-        .filter((part) => part.type === "text" && part.text)
-        .map((part) => part.text as string)
-    )
+function extractMessageText(message: Message): string {
+  return message.parts
+    .map((part) => {
+      if (part.type === "text" && !part.synthetic) return part.text
+      if (part.type === "tool" && part.state.status === "completed") {
+        return [part.state.title, part.state.output.slice(0, MAX_TOOL_OUTPUT_LENGTH)].filter(Boolean).join(" ")
+      }
+      return ""
+    })
+    .filter((text) => text.trim())
     .join(" ")
 }
 
-async function loadCachedIndex(
-  index: Index,
-  indexedData: Map<string, IndexedSession>
-): Promise<void> {
-  try {
-    const cachedJson = await LocalStorage.getItem<string>(CACHE_KEY)
-    if (!cachedJson) return
-
-    const cached: CachedIndex = JSON.parse(cachedJson)
-    if (cached.version !== CACHE_VERSION) return
+/** User messages never change; replies are final once completed or failed */
+function isFinalMessage(message: Message): boolean {
+  return message.info.role === "user" || !!message.info.time.completed || !!message.info.error
+}
 
-    for (const item of cached.indexedSessions) {
-      indexedData.set(item.id, item)
-      index.add(item.id, `${item.title} ${item.directory} ${item.content}`)
+/** Sessions from the LocalStorage cache used before the on-disk store, with their messages */
+async function loadLegacyCache(): Promise<CachedIndexV2["sessions"]> {
+  try {
+    const cachedJson = await LocalStorage.getItem<string>(LEGACY_CACHE_KEY)
+    if (!cachedJson) return []
+
+    const cached = JSON.parse(cachedJson) as CachedIndexV1 | CachedIndexV2
+    if (cached.version === 2) return cached.sessions
+    if (cached.version === 1) {
+      // Keep the old text searchable, but with no cursor and a zero timestamp so the
+      // whole history is fetched and replaces it on the next rebuild
+      return cached.indexedSessions.map((item) => ({
+        id: item.id,
+        title: item.title,
+        directory: item.directory,
+        updated: 0,
+        messages: item.content ? [{ id: "v1", text: item.content }] : [],
+      }))
     }
+    return []
   } catch {
-    return
+    return []
   }
 }
 
-async function saveCachedIndex(
-  indexedData: Map<string, IndexedSession>
-): Promise<void> {
-  try {
-    const sessionHashes: Record<string, string> = {}
-    for (const [id, data] of indexedData) {
-      sessionHashes[id] = `${data.updated}`
-    }
+/**
+ * Import the stored index, or on first use move the old LocalStorage cache into the store.
+ * Reading the FlexSearch export is much faster than re-adding every message.
+ */
+async function loadIndex(store: SearchStore): Promise<SessionIndex> {
+  const stored = await store.load()
+  if (stored) return stored
+
+  const state = createSessionIndex()
+  const legacySessions = await loadLegacyCache()
+  for (const { messages, ...info } of legacySessions) {
+    addSessionDocuments(state, info, messages)
+    await store.setMessages(info.id, messages)
+  }
+  if (legacySessions.length > 0) {
+    await saveIndex(store, state)
+    await LocalStorage.removeItem(LEGACY_CACHE_KEY)
+  }
+  return state
+}
 
-    const cache: CachedIndex = {
-      version: CACHE_VERSION,
-      sessionHashes,
-      indexedSessions: Array.from(indexedData.values()),
-    }
-    await LocalStorage.setItem(CACHE_KEY, JSON.stringify(cache))
+async function saveIndex(store: SearchStore, state: SessionIndex): Promise<void> {
+  try {
+    await store.save(state)
   } catch {
     return
   }
@@ -86,163 +135,257 @@ function findSessionsNeedingIndex(
   })
 }
 
-async function indexSessionBatch(
-  batch: Session[],
-  index: Index,
-  indexedData: Map<string, IndexedSession>,
-  client: Awaited<ReturnType<typeof getClient>>
-): Promise<void> {
-  await Promise.all(
-    batch.map(async (session) => {
-      try {
-        const messages = await client.getSessionMessages(
-          session.id,
-          MESSAGES_PER_SESSION * 2
-        )
-        const content = extractTextFromMessages(messages)
-
-        const indexed: IndexedSession = {
-          id: session.id,
-          title: session.title || "",
-          directory: session.directory || "",
-          content,
-          updated: session.time.updated,
-        }
+/**
+ * Fetch the messages after `cursor`. The endpoint only returns the latest `limit` messages,
+ * so the window grows until it reaches the cursor. `fromStart` is set when the whole
+ * history came back instead, either because there was no cursor or it no longer exists.
+ */
+async function fetchMessagesAfter(
+  client: OpenCodeClient,
+  sessionId: string,
+  cursor?: string
+): Promise<{ messages: Message[]; fromStart: boolean }> {
+  if (!cursor) {
+    return { messages: await client.getSessionMessages(sessionId), fromStart: true }
+  }
 
-        if (indexedData.has(session.id)) {
-          index.remove(session.id)
-        }
-        index.add(session.id, `${indexed.title} ${indexed.directory} ${indexed.content}`)
-        indexedData.set(session.id, indexed)
-      } catch {
-        const indexed: IndexedSession = {
-          id: session.id,
-          title: session.title || "",
-          directory: session.directory || "",
-          content: "",
-          updated: session.time.updated,
-        }
-        if (!indexedData.has(session.id)) {
-          index.add(session.id, `${indexed.title} ${indexed.directory}`)
-          indexedData.set(session.id, indexed)
-        }
-      }
-    })
+  for (let limit = INITIAL_FETCH_SIZE; ; limit *= 4) {
+    const messages = await client.getSessionMessages(sessionId, limit)
+    const cursorIndex = messages.findIndex((m) => m.info.id === cursor)
+    if (cursorIndex >= 0) {
+      return { messages: messages.slice(cursorIndex + 1), fromStart: false }
+    }
+    if (messages.length < limit) {
+      return { messages, fromStart: true }
+    }
+  }
+}
+
+/** Sessions are read through their own project, since the server scopes requests by directory */
+function getSessionClient(client: OpenCodeClient, directory?: string): OpenCodeClient {
+  return directory ? client.forDirectory(directory) : client
+}
+
+function isNotFoundError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith("HTTP 404")
+}
+
+/** Fetch and index a session's new messages. A failed fetch throws and leaves the session as it was. */
+async function indexSession(
+  session: Session,
+  state: SessionIndex,
+  store: SearchStore,
+  client: OpenCodeClient
+): Promise<void> {
+  const previous = state.sessions.get(session.id)
+  const info: SessionInfo = {
+    id: session.id,
+    title: session.title || "",
+    directory: session.directory || "",
+    updated: session.time.updated,
+  }
+  const { messages, fromStart } = await fetchMessagesAfter(
+    getSessionClient(client, session.directory),
+    session.id,
+    previous?.cursor
   )
+
+  // Stop at the first reply still being written; it's picked up once the session updates again
+  const pendingIndex = messages.findIndex((m) => !isFinalMessage(m))
+  const finalMessages = pendingIndex === -1 ? messages : messages.slice(0, pendingIndex)
+
+  const added = finalMessages
+    .map((m) => ({ id: m.info.id, text: extractMessageText(m) }))
+    .filter((m) => m.text)
+  const lastFinal = finalMessages[finalMessages.length - 1]
+  info.cursor = lastFinal?.info.id ?? (fromStart ? undefined : previous?.cursor)
+
+  // Only new messages were fetched; a refetch from the start replaces everything
+  const replace = fromStart || !previous
+  const storedMessages = replace ? added : [...(await store.getMessages(session.id)), ...added]
+  if (replace) {
+    removeSessionDocuments(state, session.id)
+  }
+  addSessionDocuments(state, info, storedMessages)
+  await store.setMessages(session.id, storedMessages)
 }
 
-function pruneDeletedSessions(
+/**
+ * Remove indexed sessions the server confirms are gone, and return how many were removed.
+ * The list only covers one project, so sessions missing from it are only checked when they
+ * ran in one of its directories; the others belong to projects this list doesn't show.
+ */
+async function pruneDeletedSessions(
   sessions: Session[],
-  index: Index,
-  indexedData: Map<string, IndexedSession>
-): void {
-  const sessionIds = new Set(sessions.map((s) => s.id))
-  for (const id of indexedData.keys()) {
-    if (!sessionIds.has(id)) {
-      index.remove(id)
-      indexedData.delete(id)
+  state: SessionIndex,
+  store: SearchStore,
+  client: OpenCodeClient
+): Promise<number> {
+  const listed = new Set(sessions.map((s) => s.id))
+  const directories = new Set(sessions.map((s) => s.directory || ""))
+  const missing = [...state.sessions.values()].filter((s) => !listed.has(s.id) && directories.has(s.directory))
+
+  let removed = 0
+  await settleWithConcurrency(missing, INDEX_CONCURRENCY, async (session) => {
+    try {
+      await getSessionClient(client, session.directory).getSession(session.id)
+    } catch (error) {
+      if (!isNotFoundError(error)) return
+      removeSessionDocuments(state, session.id)
+      await store.deleteMessages(session.id)
+      removed++
     }
-  }
+  })
+  return removed
 }
 
-export function useSessionSearch(sessions: Session[]) {
+/** `activeProject` ranks sessions from that project higher */
+export function useSessionSearch(sessions: Session[], activeProject?: string) {
   const [searchText, setSearchText] = useState("")
   const [filteredSessions, setFilteredSessions] = useState<Session[]>(sessions)
   const [isIndexing, setIsIndexing] = useState(false)
   const [indexProgress, setIndexProgress] = useState(0)
+  const [searchMatches, setSearchMatches] = useState<Record<string, SearchMatch>>({})
 
-  const indexRef = useRef<Index | null>(null)
-  const indexedDataRef = useRef<Map<string, IndexedSession>>(new Map())
-  const isIndexingRef = useRef(false)
+  const storeRef = useRef(new SearchStore(path.join(environment.supportPath, "search-index")))
+  const indexRef = useRef<Promise<SessionIndex> | null>(null)
+  const indexingRef = useRef<Promise<void>>(Promise.resolve())
 
-  useEffect(() => {
+  /** The index is read from disk once, when indexing starts, and shared with every search */
+  const getIndex = useCallback(() => {
     if (!indexRef.current) {
-      indexRef.current = new Index({
-        tokenize: "forward",
-        resolution: 9,
-      })
+      indexRef.current = loadIndex(storeRef.current)
     }
+    return indexRef.current
   }, [])
 
   useEffect(() => {
     if (sessions.length === 0) return
-    if (isIndexingRef.current) return
+    // Set when the list changes or the view closes: queued sessions are skipped and requests in flight finish
+    let cancelled = false
 
     async function buildIndex() {
-      isIndexingRef.current = true
+      if (cancelled) return
       setIsIndexing(true)
 
-      const index = indexRef.current!
-      const indexedData = indexedDataRef.current
-
-      await loadCachedIndex(index, indexedData)
+      const store = storeRef.current
+      const state = await getIndex()
 
       const sortedSessions = [...sessions].sort(
         (a, b) => b.time.updated - a.time.updated
       )
 
-      const sessionsToIndex = findSessionsNeedingIndex(sortedSessions, indexedData)
-
-      if (sessionsToIndex.length === 0) {
-        setIsIndexing(false)
-        setIndexProgress(100)
-        isIndexingRef.current = false
-        return
-      }
+      const sessionsToIndex = findSessionsNeedingIndex(sortedSessions, state.sessions)
+      setIndexProgress(sessionsToIndex.length === 0 ? 100 : 0)
 
-      const batchSize = Math.max(1, Math.ceil(sessionsToIndex.length / 4))
       const client = await getClient()
-
-      for (let batchIndex = 0; batchIndex < 4; batchIndex++) {
-        const start = batchIndex * batchSize
-        const end = Math.min(start + batchSize, sessionsToIndex.length)
-        const batch = sessionsToIndex.slice(start, end)
-
-        if (batch.length === 0) break
-
-        await indexSessionBatch(batch, index, indexedData, client)
-        setIndexProgress(Math.round(((batchIndex + 1) / 4) * 100))
-
-        if (batchIndex < 3) {
-          await new Promise((resolve) => setTimeout(resolve, 50))
+      let indexedCount = 0
+
+      await settleWithConcurrency(
+        sessionsToIndex,
+        INDEX_CONCURRENCY,
+        async (session) => {
+          if (cancelled) return
+          await indexSession(session, state, store, client)
+          indexedCount++
+        },
+        (completed) => {
+          if (!cancelled) setIndexProgress(Math.round((completed / sessionsToIndex.length) * 100))
         }
+      )
+
+      // A cancelled run keeps what it indexed; the next run prunes against the newer list
+      const prunedCount = cancelled ? 0 : await pruneDeletedSessions(sessions, state, store, client)
+      if (indexedCount > 0 || prunedCount > 0) {
+        await saveIndex(store, state)
       }
+    }
 
-      pruneDeletedSessions(sessions, index, indexedData)
-      await saveCachedIndex(indexedData)
+    // Runs are chained, so a new list waits for the previous run to stop and then indexes what it skipped
+    const run = indexingRef.current
+      .then(buildIndex)
+      .catch(() => undefined)
+      .finally(() => {
+        if (indexingRef.current === run) setIsIndexing(false)
+      })
+    indexingRef.current = run
 
-      setIsIndexing(false)
-      isIndexingRef.current = false
+    return () => {
+      cancelled = true
     }
-
-    buildIndex()
   }, [sessions])
 
   useEffect(() => {
-    if (!searchText.trim()) {
-      setFilteredSessions(sessions)
-      return
-    }
+    let cancelled = false
+    const query = parseSessionQuery(searchText)
+    const candidates = hasQualifiers(query) ? sessions.filter((s) => matchesSessionQuery(s, query)) : sessions
 
-    const index = indexRef.current
-    if (!index) {
-      setFilteredSessions(sessions)
+    if (!query.text) {
+      setFilteredSessions(candidates)
+      setSearchMatches({})
       return
     }
 
-    const results = index.search(searchText, { limit: 100 })
-    const resultIds = new Set(results as string[])
+    async function search(text: string) {
+      const { terms, matches: indexMatches } = searchSessionIndex(await getIndex(), text, SEARCH_LIMIT)
+
+      const matched = rankCandidates(
+        candidates.flatMap((session) => {
+          const match = indexMatches.get(session.id)
+          if (!match) return []
+          return {
+            item: session,
+            title: session.title || "",
+            updated: session.time.updated,
+            matchRank: match.rank,
+            fuzzy: match.fuzzy,
+            sameProject: !!activeProject && isInProject(session.directory, activeProject),
+          }
+        }),
+        { terms, totalMatches: indexMatches.size, now: Date.now() }
+      )
 
-    const matched = sessions.filter((s) => resultIds.has(s.id))
-    matched.sort((a, b) => b.time.updated - a.time.updated)
+      // Message text is only read for the sessions that matched
+      const matches: Record<string, SearchMatch> = {}
+      for (const session of matched) {
+        const messageId = indexMatches.get(session.id)?.messageId
+        const messages = messageId ? await storeRef.current.getMessages(session.id) : []
+        const message = messages.find((m) => m.id === messageId)
+        matches[session.id] = {
+          // The migrated v1 text isn't a real message, so there's nothing to jump to
+          messageId: message && message.id !== "v1" ? message.id : undefined,
+          snippet: buildSnippet(message?.text ?? `${session.title} ${session.directory}`, terms),
+        }
+      }
+
+      if (cancelled) return
+      setFilteredSessions(matched)
+      setSearchMatches(matches)
+    }
 
-    setFilteredSessions(matched)
-  }, [searchText, sessions])
+    search(query.text).catch(() => {
+      if (!cancelled) setFilteredSessions(candidates)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [searchText, sessions, activeProject])
+
+  /** Drop deleted sessions from the index and its store without waiting for the next rebuild */
+  const removeFromIndex = useCallback(async (sessionIds: string[]) => {
+    const store = storeRef.current
+    const state = await getIndex()
+    for (const id of sessionIds) {
+      removeSessionDocuments(state, id)
+      await store.deleteMessages(id)
+    }
+    await saveIndex(store, state)
+  }, [])
 
   const clearCache = useCallback(async () => {
-    await LocalStorage.removeItem(CACHE_KEY)
-    indexRef.current = new Index({ tokenize: "forward", resolution: 9 })
-    indexedDataRef.current.clear()
+    await LocalStorage.removeItem(LEGACY_CACHE_KEY)
+    await storeRef.current.clear()
+    indexRef.current = Promise.resolve(createSessionIndex())
     setIndexProgress(0)
   }, [])
 
@@ -250,8 +393,10 @@ export function useSessionSearch(sessions: Session[]) {
     searchText,
     setSearchText,
     filteredSessions,
+    searchMatches,
     isIndexing,
     indexProgress,
+    removeFromIndex,
     clearCache,
   }
 }
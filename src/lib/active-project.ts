@@ -0,0 +1,24 @@
+import { LocalStorage } from "@raycast/api"
+import path from "path"
+
+const STORAGE_KEY = "opencode-active-project"
+
+/** Project chosen in Switch Project, used by Ask and Sessions */
+export async function getActiveProject(): Promise<string | undefined> {
+  return (await LocalStorage.getItem<string>(STORAGE_KEY)) || undefined
+}
+
+export async function setActiveProject(directory: string | undefined): Promise<void> {
+  if (directory) {
+    await LocalStorage.setItem(STORAGE_KEY, directory)
+  } else {
+    await LocalStorage.removeItem(STORAGE_KEY)
+  }
+}
+
+/** Whether a session directory is the project itself or one of its subfolders */
+export function isInProject(directory: string | undefined, projectPath: string): boolean {
+  if (!directory) return false
+  const prefix = projectPath.endsWith(path.sep) ? projectPath : projectPath + path.sep
+  return directory === projectPath || directory.startsWith(prefix)
+}
@@ -0,0 +1,52 @@
+import { basename, extname } from "path"
+import { pathToFileURL } from "url"
+import { FilePartInput } from "./opencode"
+
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".pdf": "application/pdf",
+  ".json": "application/json",
+  ".html": "text/html",
+  ".css": "text/css",
+  ".csv": "text/csv",
+  ".md": "text/markdown",
+  ".xml": "application/xml",
+  ".js": "text/javascript",
+  ".mjs": "text/javascript",
+  ".cjs": "text/javascript",
+  ".jsx": "text/javascript",
+  ".ts": "text/x-typescript",
+  ".tsx": "text/x-typescript",
+  ".py": "text/x-python",
+  ".rb": "text/x-ruby",
+  ".go": "text/x-go",
+  ".rs": "text/x-rust",
+  ".java": "text/x-java",
+  ".swift": "text/x-swift",
+  ".sh": "text/x-shellscript",
+  ".yaml": "text/yaml",
+  ".yml": "text/yaml",
+  ".toml": "text/x-toml",
+}
+
+/**
+ * Guess a file's MIME type from its extension.
+ * Unknown extensions are sent as plain text, which is what source files usually are.
+ */
+export function getMimeType(filePath: string): string {
+  return MIME_TYPES[extname(filePath).toLowerCase()] ?? "text/plain"
+}
+
+export function createFileAttachment(filePath: string): FilePartInput {
+  return {
+    type: "file",
+    mime: getMimeType(filePath),
+    filename: basename(filePath),
+    url: pathToFileURL(filePath).href,
+  }
+}
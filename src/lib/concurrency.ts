@@ -0,0 +1,29 @@
+/**
+ * Run `task` over `items` with at most `limit` in flight, like `Promise.allSettled` with a cap.
+ * `onSettled` is called after each item finishes, for progress reporting.
+ */
+export async function settleWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+  onSettled?: (completed: number) => void
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length)
+  let next = 0
+  let completed = 0
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++
+      try {
+        results[index] = { status: "fulfilled", value: await task(items[index]) }
+      } catch (reason) {
+        results[index] = { status: "rejected", reason }
+      }
+      onSettled?.(++completed)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
@@ -0,0 +1,70 @@
+import { Clipboard, getSelectedText } from "@raycast/api"
+import { TextPartInput } from "./opencode"
+import { fence } from "./render"
+
+export const DEFAULT_CONTEXT_LIMIT = 20000
+
+type ContextSource = "clipboard" | "selection"
+
+const TOKENS: Record<ContextSource, string> = {
+  clipboard: "{clipboard}",
+  selection: "{selection}",
+}
+
+export interface ResolvedContext {
+  /** Query with tokens replaced by a short label pointing at the attached content */
+  cleanQuery: string
+  parts: TextPartInput[]
+  /** Labels of the attached sources, for display */
+  labels: string[]
+}
+
+export function parseContextLimit(value?: string): number {
+  const limit = Number.parseInt(value ?? "", 10)
+  return Number.isFinite(limit) && limit > 0 ? limit : DEFAULT_CONTEXT_LIMIT
+}
+
+async function readSource(source: ContextSource): Promise<string> {
+  if (source === "clipboard") {
+    const text = await Clipboard.readText()
+    if (!text?.trim()) throw new Error("Clipboard has no text")
+    return text
+  }
+
+  let text = ""
+  try {
+    text = await getSelectedText()
+  } catch {
+    // Raycast throws when nothing is selected or the app does not expose a selection
+  }
+  if (!text.trim()) throw new Error("No text is selected in the frontmost app")
+  return text
+}
+
+function truncate(text: string, limit: number): string {
+  if (text.length <= limit) return text
+  return `${text.slice(0, limit)}\n… (truncated ${text.length - limit} characters)`
+}
+
+/**
+ * Replace `{clipboard}` and `{selection}` in a query with labels, and return the
+ * referenced content as separate fenced text parts capped at `limit` characters.
+ */
+export async function resolveContextTokens(query: string, limit: number): Promise<ResolvedContext> {
+  let cleanQuery = query
+  const parts: TextPartInput[] = []
+  const labels: string[] = []
+
+  for (const source of Object.keys(TOKENS) as ContextSource[]) {
+    const token = TOKENS[source]
+    if (!cleanQuery.includes(token)) continue
+
+    const content = truncate(await readSource(source), limit)
+    const label = `[${source}]`
+    cleanQuery = cleanQuery.split(token).join(label)
+    parts.push({ type: "text", text: `${label}\n${fence(content)}`, synthetic: true })
+    labels.push(source)
+  }
+
+  return { cleanQuery: cleanQuery.trim(), parts, labels }
+}
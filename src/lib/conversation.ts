@@ -0,0 +1,73 @@
+import { Message, TextPart } from "./opencode"
+
+export interface ConversationTurn {
+  id: string
+  question: string
+  answer: string
+  /** Names of files sent with the question */
+  attachments: string[]
+  /** Assistant messages answering this turn, with all of their parts */
+  replies: Message[]
+  agent?: string
+  model?: { providerID: string; modelID: string }
+  directory?: string
+  time: number
+  pending?: boolean
+  /** The reply was stopped before it finished */
+  interrupted?: boolean
+}
+
+/**
+ * Visible text of a message. Synthetic parts (attached context, file contents the
+ * server inlines) are skipped.
+ */
+export function getMessageText(message: Message): string {
+  return message.parts
+    .filter((p): p is TextPart => p.type === "text" && typeof p.text === "string" && !p.synthetic)
+    .map((p) => p.text)
+    .join("\n")
+}
+
+/**
+ * Pair each user message with the assistant replies that follow it.
+ * Replies are matched on `parentID` when the server provides it, otherwise by order.
+ */
+export function buildConversation(messages: Message[], sessionDirectory?: string): ConversationTurn[] {
+  const turns: ConversationTurn[] = []
+
+  for (const message of messages) {
+    const { info } = message
+
+    if (info.role === "user") {
+      turns.push({
+        id: info.id,
+        question: getMessageText(message),
+        answer: "",
+        attachments: message.parts.flatMap((p) => (p.type === "file" ? [p.filename || p.url] : [])),
+        replies: [],
+        agent: info.agent,
+        model: info.model,
+        directory: sessionDirectory,
+        time: info.time.created,
+      })
+      continue
+    }
+
+    const turn = (info.parentID && turns.find((t) => t.id === info.parentID)) || turns[turns.length - 1]
+    if (!turn) continue
+
+    turn.replies.push(message)
+    const text = getMessageText(message)
+    turn.answer = [turn.answer, text].filter(Boolean).join("\n\n")
+    turn.agent = info.mode || turn.agent
+    if (info.providerID && info.modelID) {
+      turn.model = { providerID: info.providerID, modelID: info.modelID }
+    }
+    turn.directory = info.path?.cwd || turn.directory
+    turn.interrupted = info.error?.name === "MessageAbortedError"
+    // Still generating, e.g. a prompt sent before Raycast was closed
+    turn.pending = !info.time.completed && !info.error
+  }
+
+  return turns
+}
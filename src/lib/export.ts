@@ -0,0 +1,59 @@
+import { writeFile } from "fs/promises"
+import path from "path"
+import { Message, Session } from "./opencode"
+import { describeMessage, renderMessage } from "./render"
+
+export type ExportFormat = "markdown" | "json"
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: "md",
+  json: "json",
+}
+
+export function sessionToMarkdown(session: Session, messages: Message[]): string {
+  const header = [
+    `# ${session.title || "Untitled Session"}`,
+    "",
+    `- Session: \`${session.id}\``,
+    session.directory ? `- Directory: \`${session.directory}\`` : undefined,
+    `- Created: ${new Date(session.time.created).toLocaleString()}`,
+    `- Updated: ${new Date(session.time.updated).toLocaleString()}`,
+    session.share?.url ? `- Shared: ${session.share.url}` : undefined,
+  ].filter((line) => line !== undefined)
+
+  const sections = messages.map(
+    (message) =>
+      `## ${describeMessage(message)}\n_${new Date(message.info.time.created).toLocaleString()}_\n\n${
+        renderMessage(message, { expanded: true }) || "_No content_"
+      }`
+  )
+
+  return [header.join("\n"), ...sections].join("\n\n---\n\n") + "\n"
+}
+
+export function sessionToJSON(session: Session, messages: Message[]): string {
+  return JSON.stringify({ session, messages }, null, 2) + "\n"
+}
+
+/** File name from the session title, with part of the ID so sessions with the same title don't collide */
+export function getExportFileName(session: Session, format: ExportFormat): string {
+  const slug = (session.title || "session")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+  return `${slug || "session"}-${session.id.slice(-8)}.${EXTENSIONS[format]}`
+}
+
+/** Write the transcript into `folder` and return the path of the new file */
+export async function exportSession(
+  session: Session,
+  messages: Message[],
+  format: ExportFormat,
+  folder: string
+): Promise<string> {
+  const filePath = path.join(folder, getExportFileName(session, format))
+  const content = format === "json" ? sessionToJSON(session, messages) : sessionToMarkdown(session, messages)
+  await writeFile(filePath, content, "utf8")
+  return filePath
+}
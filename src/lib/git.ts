@@ -0,0 +1,51 @@
+import { execFile } from "child_process"
+import { promisify } from "util"
+
+const execFileAsync = promisify(execFile)
+
+// Keep a huge or network-mounted repository from stalling the project list
+const GIT_TIMEOUT_MS = 3000
+
+export interface GitInfo {
+  /** Branch name, or a short commit hash when HEAD is detached */
+  branch: string
+  dirty: boolean
+  origin?: string
+}
+
+async function git(directory: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", ["-C", directory, ...args], { timeout: GIT_TIMEOUT_MS })
+  return stdout.trim()
+}
+
+/**
+ * Read branch, working tree state and origin remote for a directory.
+ * Returns null when the directory isn't inside a git repository or git isn't available.
+ */
+export async function getGitInfo(directory: string): Promise<GitInfo | null> {
+  try {
+    // symbolic-ref works before the first commit; rev-parse covers a detached HEAD
+    const branch = await git(directory, ["symbolic-ref", "--short", "-q", "HEAD"]).catch(() =>
+      git(directory, ["rev-parse", "--short", "HEAD"])
+    )
+    const [status, origin] = await Promise.all([
+      git(directory, ["status", "--porcelain"]).catch(() => ""),
+      git(directory, ["config", "--get", "remote.origin.url"]).catch(() => ""),
+    ])
+    return {
+      branch,
+      dirty: status.length > 0,
+      origin: origin || undefined,
+    }
+  } catch {
+    return null
+  }
+}
+
+/** Shorten a remote URL to `owner/repo`, keeping the host for anything other than GitHub */
+export function formatRemote(url: string): string {
+  const match = url.match(/^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?([^:/]+)[:/](.+?)(?:\.git)?\/?$/)
+  if (!match) return url
+  const [, host, repo] = match
+  return host === "github.com" ? repo : `${host}/${repo}`
+}
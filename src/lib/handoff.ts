@@ -1,4 +1,4 @@
-import { showHUD, Clipboard, showToast, Toast } from "@raycast/api"
+import { showHUD, Clipboard, showToast, Toast, launchCommand, LaunchType } from "@raycast/api"
 import { exec } from "child_process"
 import { promisify } from "util"
 
@@ -184,3 +184,20 @@ export async function copySessionCommand(sessionId: string, workingDir?: string)
   await Clipboard.copy(command)
   await showHUD("Command copied to clipboard")
 }
+
+export async function continueInRaycast(sessionId: string, workingDir?: string): Promise<void> {
+  await launchCommand({
+    name: "ask",
+    type: LaunchType.UserInitiated,
+    context: { sessionId, directory: workingDir },
+  })
+}
+
+/** Open Ask OpenCode with a fresh conversation in the given directory */
+export async function askInDirectory(directory: string): Promise<void> {
+  await launchCommand({
+    name: "ask",
+    type: LaunchType.UserInitiated,
+    context: { directory },
+  })
+}
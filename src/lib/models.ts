@@ -0,0 +1,151 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs"
+import { homedir } from "os"
+import { dirname, join } from "path"
+import { FilePartInput, Model, Provider } from "./opencode"
+
+const MAX_RECENT_MODELS = 10
+
+export interface ModelRef {
+  providerID: string
+  modelID: string
+}
+
+export function findModel(providers: Provider[], ref: ModelRef): Model | undefined {
+  return providers.find((p) => p.id === ref.providerID)?.models[ref.modelID]
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${+(count / 1_000_000).toFixed(1)}M`
+  if (count >= 1_000) return `${Math.round(count / 1_000)}K`
+  return `${count}`
+}
+
+function formatCost(cost: number): string {
+  return `$${+cost.toFixed(2)}`
+}
+
+/**
+ * Short capability summary for a model, e.g. "200K · $3/$15 · reasoning · files".
+ * Costs are per million input/output tokens.
+ */
+export function describeModel(model: Model): string {
+  const details: string[] = []
+  if (model.limit?.context) {
+    details.push(formatTokens(model.limit.context))
+  }
+  if (model.cost) {
+    details.push(
+      model.cost.input === 0 && model.cost.output === 0
+        ? "free"
+        : `${formatCost(model.cost.input)}/${formatCost(model.cost.output)}`
+    )
+  }
+  if (model.reasoning) details.push("reasoning")
+  if (model.attachment) details.push("files")
+  if (model.tool_call === false) details.push("no tools")
+  return details.join(" · ")
+}
+
+export function getModelKeywords(model: Model): string[] {
+  return [
+    model.reasoning ? "reasoning" : undefined,
+    model.attachment ? "attachment" : undefined,
+    model.tool_call ? "tools" : undefined,
+  ].filter((k): k is string => k !== undefined)
+}
+
+/**
+ * Whether a model can take a prompt with these attachments. The server inlines text
+ * files as plain text, so only binary attachments (images, PDFs) need attachment support.
+ * Models that don't report the capability are assumed to accept anything.
+ */
+export function modelSupportsAttachments(model: Model | undefined, attachments: FilePartInput[]): boolean {
+  if (!model || model.attachment !== false) return true
+  return attachments.every((file) => file.mime.startsWith("text/") || /^application\/(json|xml)$/.test(file.mime))
+}
+
+/** OpenCode's own record of recent and favorite models, shared with the TUI */
+export interface LocalModelConfig {
+  recent: ModelRef[]
+  favorite: ModelRef[]
+  [key: string]: unknown
+}
+
+const MODEL_CONFIG_PATHS = [
+  join(homedir(), ".local", "state", "opencode", "model.json"),
+  join(homedir(), "Library", "Application Support", "opencode", "model.json"),
+]
+
+function getModelConfigPath(): string {
+  return MODEL_CONFIG_PATHS.find((path) => existsSync(path)) ?? MODEL_CONFIG_PATHS[0]
+}
+
+export function getLocalModelConfig(): LocalModelConfig | null {
+  for (const path of MODEL_CONFIG_PATHS) {
+    if (existsSync(path)) {
+      try {
+        const content = readFileSync(path, "utf-8")
+        return JSON.parse(content) as LocalModelConfig
+      } catch {
+        continue
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Write model.json through a temp file and rename, so OpenCode never reads a partial file.
+ * Keys this extension doesn't know about are preserved.
+ */
+function saveLocalModelConfig(config: LocalModelConfig): void {
+  const path = getModelConfigPath()
+  const tempPath = `${path}.${process.pid}.tmp`
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(tempPath, JSON.stringify(config, null, 2))
+  renameSync(tempPath, path)
+}
+
+function isSameModel(a: ModelRef, b: ModelRef): boolean {
+  return a.providerID === b.providerID && a.modelID === b.modelID
+}
+
+/**
+ * Update model.json from its current content. A file that exists but doesn't parse, such as one
+ * OpenCode is halfway through writing, throws instead of being replaced with only this change.
+ */
+function updateLocalModelConfig(update: (config: LocalModelConfig) => LocalModelConfig): LocalModelConfig {
+  const path = getModelConfigPath()
+  let current: LocalModelConfig | null = null
+  if (existsSync(path)) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(readFileSync(path, "utf-8"))
+    } catch {
+      parsed = null
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error(`Couldn't read ${path}; it was left unchanged`)
+    }
+    current = parsed as LocalModelConfig
+  }
+  const next = update({ ...current, recent: current?.recent ?? [], favorite: current?.favorite ?? [] })
+  saveLocalModelConfig(next)
+  return next
+}
+
+export function recordRecentModel(ref: ModelRef): LocalModelConfig {
+  return updateLocalModelConfig((config) => ({
+    ...config,
+    recent: [ref, ...config.recent.filter((r) => !isSameModel(r, ref))].slice(0, MAX_RECENT_MODELS),
+  }))
+}
+
+export function toggleFavoriteModel(ref: ModelRef): LocalModelConfig {
+  return updateLocalModelConfig((config) => ({
+    ...config,
+    favorite: config.favorite.some((f) => isSameModel(f, ref))
+      ? config.favorite.filter((f) => !isSameModel(f, ref))
+      : [...config.favorite, ref],
+  }))
+}
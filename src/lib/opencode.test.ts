@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { FakeSSEServer, startFakeSSEServer } from "../test/fake-sse-server"
+import { OpenCodeClient, OpenCodeEvent, readEventStream } from "./opencode"
+
+const idle = (sessionID: string) => ({ type: "session.idle", properties: { sessionID } })
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    },
+  })
+}
+
+async function collect(chunks: string[]): Promise<OpenCodeEvent[]> {
+  const events: OpenCodeEvent[] = []
+  await readEventStream(streamOf(chunks), (event) => events.push(event))
+  return events
+}
+
+describe("readEventStream", () => {
+  it("joins an event split across chunks", async () => {
+    const data = JSON.stringify(idle("ses_1"))
+    expect(await collect([`data: ${data.slice(0, 10)}`, `${data.slice(10)}\n`, "\n"])).toEqual([idle("ses_1")])
+  })
+
+  it("reads a CRLF split between chunks as one line break", async () => {
+    const first = `data: ${JSON.stringify(idle("ses_1"))}`
+    const second = `data: ${JSON.stringify(idle("ses_2"))}`
+    const events = await collect([`${first}\r`, `\n\r`, `\n${second}\r\n`, "\r\n"])
+    expect(events).toEqual([idle("ses_1"), idle("ses_2")])
+  })
+
+  it("does not end an event at a lone CR followed by a CRLF in the next chunk", async () => {
+    // "data: a\r" + "\r\n" would be two line breaks if the CR were normalized before its LF arrived
+    const multiline = `data: {"type":"session.idle",\r`
+    const events = await collect([multiline, `data: "properties":{"sessionID":"ses_1"}}\r`, "\n\r\n"])
+    expect(events).toEqual([idle("ses_1")])
+  })
+
+  it("dispatches the last event when the stream ends with a CR", async () => {
+    expect(await collect([`data: ${JSON.stringify(idle("ses_1"))}\r`])).toEqual([idle("ses_1")])
+  })
+
+  it("skips malformed payloads and keeps reading", async () => {
+    const events = await collect(["data: {not json\n\n", `data: ${JSON.stringify(idle("ses_1"))}\n\n`])
+    expect(events).toEqual([idle("ses_1")])
+  })
+
+  it("does not swallow errors thrown by the callback", async () => {
+    const stream = streamOf([`data: ${JSON.stringify(idle("ses_1"))}\n\n`])
+    await expect(
+      readEventStream(stream, () => {
+        throw new Error("handler failed")
+      })
+    ).rejects.toThrow("handler failed")
+  })
+})
+
+describe("OpenCodeClient.subscribeEvents", () => {
+  let server: FakeSSEServer
+
+  beforeEach(async () => {
+    server = await startFakeSSEServer()
+  })
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  it("delivers events written by the server in any chunking", async () => {
+    const events: OpenCodeEvent[] = []
+    const subscription = new OpenCodeClient(server.url, "/projects/app").subscribeEvents((event) => events.push(event))
+
+    const headers = await server.connected
+    await subscription.ready
+    expect(headers["x-opencode-directory"]).toBe("/projects/app")
+
+    const data = JSON.stringify(idle("ses_1"))
+    await server.send(`data: ${data.slice(0, 12)}`)
+    await server.send(`${data.slice(12)}\r`)
+    await server.send("\n\r\n")
+    await server.send(`data: ${JSON.stringify(idle("ses_2"))}\r\n\r\n`)
+    server.end()
+
+    await subscription.done
+    expect(events).toEqual([idle("ses_1"), idle("ses_2")])
+  })
+
+  it("stops delivering events once closed", async () => {
+    const events: OpenCodeEvent[] = []
+    const subscription = new OpenCodeClient(server.url).subscribeEvents((event) => events.push(event))
+    await server.connected
+    await subscription.ready
+
+    await server.send(`data: ${JSON.stringify(idle("ses_1"))}\n\n`)
+    await vi.waitFor(() => expect(events).toHaveLength(1))
+    subscription.close()
+    await subscription.done
+
+    await server.send(`data: ${JSON.stringify(idle("ses_2"))}\n\n`).catch(() => undefined)
+    expect(events).toEqual([idle("ses_1")])
+  })
+
+  it("rejects ready when the server can't be reached", async () => {
+    await server.close()
+    const subscription = new OpenCodeClient(server.url).subscribeEvents(() => {})
+    await expect(subscription.ready).rejects.toThrow()
+    await subscription.done
+  })
+})
@@ -22,6 +22,17 @@ export interface Session {
   }
 }
 
+/** A project the server knows about, keyed by its git worktree */
+export interface ProjectInfo {
+  id: string
+  worktree: string
+  vcs?: "git"
+  time: {
+    created: number
+    initialized?: number
+  }
+}
+
 export interface Agent {
   name: string
   description?: string
@@ -34,20 +45,207 @@ export interface Command {
   description?: string
 }
 
-export interface MessagePart {
-  type: string
+interface PartBase {
   id?: string
-  text?: string
-  [key: string]: unknown
+  sessionID?: string
+  messageID?: string
+}
+
+export interface TextPart extends PartBase {
+  type: "text"
+  text: string
+  synthetic?: boolean
+}
+
+export interface ReasoningPart extends PartBase {
+  type: "reasoning"
+  text: string
+  time?: {
+    start: number
+    end?: number
+  }
+}
+
+export interface FilePart extends PartBase {
+  type: "file"
+  mime: string
+  filename?: string
+  url: string
+}
+
+export type ToolState =
+  | {
+      status: "pending"
+      input?: Record<string, unknown>
+    }
+  | {
+      status: "running"
+      input: Record<string, unknown>
+      title?: string
+      metadata?: Record<string, unknown>
+    }
+  | {
+      status: "completed"
+      input: Record<string, unknown>
+      output: string
+      title: string
+      metadata?: Record<string, unknown>
+    }
+  | {
+      status: "error"
+      input: Record<string, unknown>
+      error: string
+    }
+
+export interface ToolPart extends PartBase {
+  type: "tool"
+  callID: string
+  tool: string
+  state: ToolState
+}
+
+export interface StepStartPart extends PartBase {
+  type: "step-start"
+  snapshot?: string
+}
+
+export interface StepFinishPart extends PartBase {
+  type: "step-finish"
+  reason?: string
+  cost?: number
+  tokens?: {
+    input: number
+    output: number
+    reasoning: number
+    cache: { read: number; write: number }
+  }
+}
+
+export interface PatchPart extends PartBase {
+  type: "patch"
+  hash: string
+  files: string[]
+}
+
+export type MessagePart =
+  | TextPart
+  | ReasoningPart
+  | FilePart
+  | ToolPart
+  | StepStartPart
+  | StepFinishPart
+  | PatchPart
+
+export interface UserMessageInfo {
+  id: string
+  sessionID: string
+  role: "user"
+  time: {
+    created: number
+  }
+  agent?: string
+  model?: {
+    providerID: string
+    modelID: string
+  }
+}
+
+export interface AssistantMessageInfo {
+  id: string
+  sessionID: string
+  role: "assistant"
+  time: {
+    created: number
+    completed?: number
+  }
+  parentID?: string
+  /** Why generation stopped, e.g. "stop" or "tool-calls" */
+  finish?: string
+  providerID: string
+  modelID?: string
+  /** Agent that produced the reply */
+  mode?: string
+  path?: {
+    cwd: string
+    root: string
+  }
+  error?: {
+    name: string
+    data?: { message?: string }
+  }
 }
 
 export interface Message {
-  info: {
-    id: string
+  info: UserMessageInfo | AssistantMessageInfo
+  parts: MessagePart[]
+}
+
+export interface TextPartInput {
+  type: "text"
+  text: string
+  /** Sent to the model but not shown as part of the question */
+  synthetic?: boolean
+}
+
+export interface FilePartInput {
+  type: "file"
+  mime: string
+  filename?: string
+  /** Absolute `file://` URL */
+  url: string
+}
+
+/** Extra parts sent alongside the prompt text */
+export type PartInput = TextPartInput | FilePartInput
+
+export interface MessagePartUpdatedEvent {
+  type: "message.part.updated"
+  properties: {
+    part: MessagePart & { sessionID: string; messageID: string }
+    delta?: string
+  }
+}
+
+export interface MessageUpdatedEvent {
+  type: "message.updated"
+  properties: {
+    info: Message["info"]
+  }
+}
+
+export interface SessionIdleEvent {
+  type: "session.idle"
+  properties: {
     sessionID: string
-    role: "user" | "assistant"
   }
-  parts: MessagePart[]
+}
+
+export interface SessionErrorEvent {
+  type: "session.error"
+  properties: {
+    sessionID?: string
+    error?: unknown
+  }
+}
+
+export interface ServerConnectedEvent {
+  type: "server.connected"
+  properties: Record<string, unknown>
+}
+
+export type OpenCodeEvent =
+  | MessagePartUpdatedEvent
+  | MessageUpdatedEvent
+  | SessionIdleEvent
+  | SessionErrorEvent
+  | ServerConnectedEvent
+
+export interface EventSubscription {
+  /** Resolves once the server has accepted the stream, rejects if it could not be opened */
+  ready: Promise<void>
+  /** Resolves when the stream ends, fails or is closed */
+  done: Promise<void>
+  close: () => void
 }
 
 export interface HealthResponse {
@@ -59,6 +257,22 @@ export interface Model {
   id: string
   providerID: string
   name: string
+  /** Accepts image and PDF file parts */
+  attachment?: boolean
+  reasoning?: boolean
+  temperature?: boolean
+  tool_call?: boolean
+  /** USD per million tokens */
+  cost?: {
+    input: number
+    output: number
+    cache_read?: number
+    cache_write?: number
+  }
+  limit?: {
+    context: number
+    output: number
+  }
 }
 
 export interface Provider {
@@ -69,10 +283,8 @@ export interface Provider {
 
 export interface ProviderResponse {
   all: Provider[]
-  default: {
-    providerID: string
-    modelID: string
-  }
+  /** Default model ID for each provider, keyed by provider ID */
+  default: Record<string, string>
 }
 
 class OpenCodeClient {
@@ -84,12 +296,7 @@ class OpenCodeClient {
     this.directory = directory
   }
 
-  private async request<T>(
-    method: string,
-    path: string,
-    body?: unknown,
-    queryParams?: Record<string, string | undefined>
-  ): Promise<T> {
+  private buildUrl(path: string, queryParams?: Record<string, string | undefined>): URL {
     const url = new URL(path, this.baseUrl)
 
     if (this.directory) {
@@ -104,6 +311,18 @@ class OpenCodeClient {
       }
     }
 
+    return url
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    queryParams?: Record<string, string | undefined>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const url = this.buildUrl(path, queryParams)
+
     const response = await fetch(url.toString(), {
       method,
       headers: {
@@ -112,6 +331,7 @@ class OpenCodeClient {
         ...(this.directory ? { "x-opencode-directory": this.directory } : {}),
       },
       body: body ? JSON.stringify(body) : undefined,
+      signal,
     })
 
     if (!response.ok) {
@@ -130,6 +350,10 @@ class OpenCodeClient {
     return this.request<Session[]>("GET", "/session")
   }
 
+  async listProjects(): Promise<ProjectInfo[]> {
+    return this.request<ProjectInfo[]>("GET", "/project")
+  }
+
   async createSession(title?: string): Promise<Session> {
     return this.request<Session>("POST", "/session", { title })
   }
@@ -138,6 +362,10 @@ class OpenCodeClient {
     return this.request<Session>("GET", `/session/${sessionId}`)
   }
 
+  async updateSession(sessionId: string, changes: { title?: string }): Promise<Session> {
+    return this.request<Session>("PATCH", `/session/${sessionId}`, changes)
+  }
+
   async deleteSession(sessionId: string): Promise<boolean> {
     return this.request<boolean>("DELETE", `/session/${sessionId}`)
   }
@@ -154,13 +382,57 @@ class OpenCodeClient {
     options: {
       agent?: string
       model: { providerID: string; modelID: string }
+      attachments?: PartInput[]
+      signal?: AbortSignal
     }
   ): Promise<Message> {
-    return this.request<Message>("POST", `/session/${sessionId}/message`, {
-      parts: [{ type: "text", text }],
-      agent: options.agent,
-      model: options.model,
-    })
+    return this.request<Message>(
+      "POST",
+      `/session/${sessionId}/message`,
+      {
+        parts: [{ type: "text", text }, ...(options.attachments ?? [])],
+        agent: options.agent,
+        model: options.model,
+      },
+      undefined,
+      options.signal
+    )
+  }
+
+  async runCommand(
+    sessionId: string,
+    command: string,
+    args: string,
+    options: {
+      agent?: string
+      model?: { providerID: string; modelID: string }
+      signal?: AbortSignal
+    }
+  ): Promise<Message> {
+    return this.request<Message>(
+      "POST",
+      `/session/${sessionId}/command`,
+      {
+        command,
+        arguments: args,
+        agent: options.agent,
+        model: options.model ? `${options.model.providerID}/${options.model.modelID}` : undefined,
+      },
+      undefined,
+      options.signal
+    )
+  }
+
+  async summarizeSession(sessionId: string, model: { providerID: string; modelID: string }): Promise<boolean> {
+    return this.request<boolean>("POST", `/session/${sessionId}/summarize`, model)
+  }
+
+  async shareSession(sessionId: string): Promise<Session> {
+    return this.request<Session>("POST", `/session/${sessionId}/share`)
+  }
+
+  async unshareSession(sessionId: string): Promise<Session> {
+    return this.request<Session>("DELETE", `/session/${sessionId}/share`)
   }
 
   async abortSession(sessionId: string): Promise<boolean> {
@@ -179,20 +451,129 @@ class OpenCodeClient {
     return this.request<ProviderResponse>("GET", "/provider")
   }
 
+  /**
+   * Subscribe to the server's SSE event feed (`GET /event`).
+   * Events for every session are delivered; callers filter by `sessionID`.
+   */
+  subscribeEvents(onEvent: (event: OpenCodeEvent) => void): EventSubscription {
+    const controller = new AbortController()
+    let resolveReady: () => void = () => {}
+    let rejectReady: (error: Error) => void = () => {}
+    const ready = new Promise<void>((resolve, reject) => {
+      resolveReady = resolve
+      rejectReady = reject
+    })
+    // Callers that only await `done` should not see an unhandled rejection
+    ready.catch(() => {})
+
+    const done = (async () => {
+      try {
+        const response = await fetch(this.buildUrl("/event").toString(), {
+          headers: {
+            Accept: "text/event-stream",
+            ...(this.directory ? { "x-opencode-directory": this.directory } : {}),
+          },
+          signal: controller.signal,
+        })
+
+        if (!response.ok || !response.body) {
+          throw new Error(`HTTP ${response.status}: event stream unavailable`)
+        }
+
+        resolveReady()
+        await readEventStream(response.body, onEvent)
+      } catch (error) {
+        rejectReady(error instanceof Error ? error : new Error(String(error)))
+      }
+    })()
+
+    return {
+      ready,
+      done,
+      close: () => controller.abort(),
+    }
+  }
+
   setDirectory(directory: string): void {
     this.directory = directory
   }
+
+  /** A client for the same server scoped to another project, leaving this one as it is */
+  forDirectory(directory: string): OpenCodeClient {
+    return new OpenCodeClient(this.baseUrl, directory)
+  }
+}
+
+/**
+ * Read an SSE body and dispatch each `data:` payload as a parsed event.
+ * Payloads that are not valid JSON are skipped; errors thrown by `onEvent` end the stream.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: OpenCodeEvent) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  const dispatch = (block: string) => {
+    const data = block
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""))
+      .join("\n")
+    if (!data) return
+
+    let event: OpenCodeEvent
+    try {
+      event = JSON.parse(data) as OpenCodeEvent
+    } catch {
+      // Ignore malformed payloads
+      return
+    }
+    onEvent(event)
+  }
+
+  // A CRLF split across chunks must not read as two line breaks, so a trailing CR waits for the next chunk
+  let pendingCR = false
+
+  for (;;) {
+    const { value, done } = await reader.read()
+    if (done) break
+
+    let chunk: string = (pendingCR ? "\r" : "") + decoder.decode(value, { stream: true })
+    pendingCR = chunk.endsWith("\r")
+    if (pendingCR) chunk = chunk.slice(0, -1)
+    buffer += chunk.replace(/\r\n?/g, "\n")
+
+    let boundary = buffer.indexOf("\n\n")
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf("\n\n")
+    }
+  }
+
+  if (pendingCR) buffer += "\n"
+  if (buffer.trim()) {
+    dispatch(buffer)
+  }
+}
+
+export class PromptAbortedError extends Error {
+  constructor() {
+    super("Prompt was interrupted")
+    this.name = "PromptAbortedError"
+  }
 }
 
 let clientInstance: OpenCodeClient | null = null
-let serverUrl: string | null = null
 
 export async function getClient(directory?: string): Promise<OpenCodeClient> {
   const preferences = getPreferenceValues<Preferences>()
 
   try {
     const server = await ensureServer(preferences.autoStartServer)
-    serverUrl = server.url
 
     if (!clientInstance || directory) {
       const effectiveDir = directory || preferences.defaultProject
@@ -226,10 +607,6 @@ export async function getClient(directory?: string): Promise<OpenCodeClient> {
   }
 }
 
-export function getServerUrl(): string | null {
-  return serverUrl
-}
-
 export function resetClient(): void {
   clientInstance = null
 }
@@ -0,0 +1,96 @@
+import { LocalStorage } from "@raycast/api"
+import { Message } from "./opencode"
+
+const STORAGE_KEY = "opencode-pending-prompts"
+// Past this, a reply is not coming, or was long since seen in OpenCode itself
+export const PENDING_MAX_AGE = 60 * 60 * 1000
+
+export interface PendingPrompt {
+  sessionID: string
+  /** ID of the user message, known once the server has accepted the prompt */
+  messageID?: string
+  directory?: string
+  question: string
+  createdAt: number
+  /** Set once the background check has announced the reply */
+  notified?: boolean
+}
+
+export function isPendingPromptExpired(prompt: PendingPrompt, now = Date.now()): boolean {
+  return now - prompt.createdAt > PENDING_MAX_AGE
+}
+
+/** Pending prompts that have not expired. Expired ones are removed from storage. */
+export async function getPendingPrompts(): Promise<PendingPrompt[]> {
+  let prompts: PendingPrompt[]
+  try {
+    const stored = await LocalStorage.getItem<string>(STORAGE_KEY)
+    prompts = stored ? (JSON.parse(stored) as PendingPrompt[]) : []
+  } catch {
+    return []
+  }
+
+  const current = prompts.filter((p) => !isPendingPromptExpired(p))
+  if (current.length !== prompts.length) {
+    await savePendingPrompts(current)
+  }
+  return current
+}
+
+async function savePendingPrompts(prompts: PendingPrompt[]): Promise<void> {
+  if (prompts.length === 0) {
+    await LocalStorage.removeItem(STORAGE_KEY)
+    return
+  }
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(prompts))
+}
+
+/**
+ * Insert or update the pending prompt for a session.
+ * Only one prompt can be in flight per session, so entries are keyed by session ID.
+ */
+export async function trackPendingPrompt(prompt: PendingPrompt): Promise<void> {
+  const prompts = await getPendingPrompts()
+  const existing = prompts.find((p) => p.sessionID === prompt.sessionID)
+  const others = prompts.filter((p) => p.sessionID !== prompt.sessionID)
+  await savePendingPrompts([...others, { ...existing, ...prompt }])
+}
+
+export async function markPendingPromptNotified(sessionID: string): Promise<void> {
+  const prompts = await getPendingPrompts()
+  await savePendingPrompts(prompts.map((p) => (p.sessionID === sessionID ? { ...p, notified: true } : p)))
+}
+
+export async function removePendingPrompt(sessionID: string): Promise<void> {
+  const prompts = await getPendingPrompts()
+  await savePendingPrompts(prompts.filter((p) => p.sessionID !== sessionID))
+}
+
+/** Whether the prompt's user message reached the session; without it no reply will come */
+export function hasPromptMessage(messages: Message[], prompt: PendingPrompt): boolean {
+  return messages.some(({ info }) =>
+    prompt.messageID ? info.id === prompt.messageID : info.role === "user" && info.time.created >= prompt.createdAt
+  )
+}
+
+/**
+ * Find the finished assistant reply to a pending prompt, if there is one yet.
+ * Replies are matched on `parentID` when the user message ID was captured,
+ * otherwise on being created after the prompt was sent. A reply that ended in
+ * tool calls is followed by another step, so only the last reply counts.
+ */
+export function findCompletedReply(messages: Message[], prompt: PendingPrompt): Message | undefined {
+  const replies = messages.filter(({ info }) => {
+    if (info.role !== "assistant") return false
+    if (prompt.messageID && info.parentID) {
+      return info.parentID === prompt.messageID
+    }
+    return info.time.created >= prompt.createdAt
+  })
+
+  const last = replies[replies.length - 1]
+  if (!last || last.info.role !== "assistant") return undefined
+  if (last.info.error) return last
+  if (!last.info.time.completed || last.info.finish === "tool-calls") return undefined
+  return last
+}
@@ -0,0 +1,30 @@
+import { LocalStorage } from "@raycast/api"
+import { ModelRef } from "./models"
+
+const STORAGE_KEY = "opencode-project-choices"
+
+/** Agent and model last used in a project directory */
+export interface ProjectChoice {
+  agent?: string
+  model?: ModelRef
+}
+
+async function loadChoices(): Promise<Record<string, ProjectChoice>> {
+  try {
+    const stored = await LocalStorage.getItem<string>(STORAGE_KEY)
+    return stored ? (JSON.parse(stored) as Record<string, ProjectChoice>) : {}
+  } catch {
+    return {}
+  }
+}
+
+export async function getProjectChoice(directory: string): Promise<ProjectChoice | undefined> {
+  const choices = await loadChoices()
+  return choices[directory]
+}
+
+export async function saveProjectChoice(directory: string, choice: Partial<ProjectChoice>): Promise<void> {
+  const choices = await loadChoices()
+  choices[directory] = { ...choices[directory], ...choice }
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(choices))
+}
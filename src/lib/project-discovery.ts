@@ -0,0 +1,119 @@
+import { readdir, stat } from "fs/promises"
+import { existsSync } from "fs"
+import { homedir } from "os"
+import path from "path"
+import { OpenCodeClient, ProjectInfo, Session } from "./opencode"
+import { settleWithConcurrency } from "./concurrency"
+
+export interface DiscoveredProject {
+  path: string
+  /** Latest known activity, used to order projects that were never opened from Raycast */
+  lastUsed: number
+}
+
+// Projects whose sessions are listed at once
+const SESSION_LIST_CONCURRENCY = 4
+
+// Large trees that never hold repositories worth listing
+const SKIPPED_DIRECTORIES = new Set(["node_modules", "vendor", "Library", "Applications"])
+
+function expandHome(value: string): string {
+  return value.startsWith("~") ? path.join(homedir(), value.slice(1)) : path.resolve(value)
+}
+
+export function parseProjectRoots(value?: string): string[] {
+  if (!value) return []
+  return value
+    .split(",")
+    .map((root) => root.trim())
+    .filter(Boolean)
+    .map(expandHome)
+}
+
+/**
+ * Sessions of every project the server knows, and of `directories`. The server lists sessions
+ * per project, so each one is asked for its own. Projects that fail to list are skipped.
+ */
+export async function listAllSessions(
+  client: OpenCodeClient,
+  directories: string[] = []
+): Promise<{ projects: ProjectInfo[]; sessions: Session[] }> {
+  // Servers without the project endpoint still list the sessions of the known directories
+  const projects = await client.listProjects().catch((): ProjectInfo[] => [])
+  // The global project's "/" worktree lists the sessions that ran outside any repository
+  const projectDirectories = [...new Set([...projects.map((p) => p.worktree).filter(Boolean), ...directories])]
+
+  // The client's own project comes first, and its listing is the one whose failure is reported
+  const [own, ...others] = await settleWithConcurrency(
+    [client, ...projectDirectories.map((directory) => client.forDirectory(directory))],
+    SESSION_LIST_CONCURRENCY,
+    (projectClient) => projectClient.listSessions()
+  )
+  if (own.status === "rejected") throw own.reason
+
+  const sessions = new Map<string, Session>()
+  for (const result of [own, ...others]) {
+    if (result.status !== "fulfilled") continue
+    for (const session of result.value) sessions.set(session.id, session)
+  }
+  return { projects, sessions: [...sessions.values()] }
+}
+
+/**
+ * Project directories the server knows about: its project list plus every directory a session ran in.
+ */
+export function collectServerProjects(projects: ProjectInfo[], sessions: Session[]): DiscoveredProject[] {
+  const found = new Map<string, number>()
+
+  function note(directory: string | undefined, time: number) {
+    // The global project has "/" as its worktree
+    if (!directory || directory === "/") return
+    found.set(directory, Math.max(found.get(directory) ?? 0, time))
+  }
+
+  for (const project of projects) {
+    note(project.worktree, project.time.initialized ?? project.time.created)
+  }
+  for (const session of sessions) {
+    note(session.directory, session.time.updated)
+  }
+
+  return [...found]
+    .filter(([directory]) => existsSync(directory))
+    .map(([directory, lastUsed]) => ({ path: directory, lastUsed }))
+}
+
+/**
+ * Find git repositories up to `depth` levels below each root.
+ * A repository's own subfolders are not searched, so nested checkouts and submodules are skipped.
+ */
+export async function scanGitRepos(roots: string[], depth: number): Promise<DiscoveredProject[]> {
+  const found: DiscoveredProject[] = []
+
+  async function visit(directory: string, remaining: number) {
+    let entries
+    try {
+      entries = await readdir(directory, { withFileTypes: true })
+    } catch {
+      return
+    }
+
+    // `.git` is a file in worktrees, so match on the name only
+    if (entries.some((entry) => entry.name === ".git")) {
+      const gitStat = await stat(path.join(directory, ".git")).catch(() => null)
+      found.push({ path: directory, lastUsed: gitStat?.mtimeMs ?? 0 })
+      return
+    }
+    if (remaining === 0) return
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith(".") || SKIPPED_DIRECTORIES.has(entry.name)) continue
+      await visit(path.join(directory, entry.name), remaining - 1)
+    }
+  }
+
+  for (const root of roots) {
+    await visit(root, depth)
+  }
+  return found
+}
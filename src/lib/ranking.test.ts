@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest"
+import { correctTerm, editDistance, rankCandidates, RankingCandidate, splitIdentifier } from "./ranking"
+import { IndexedMessage, SessionInfo, addSessionDocuments, createSessionIndex, searchSessionIndex } from "./search-index"
+
+const NOW = Date.parse("2026-03-01T12:00:00Z")
+const DAY = 86400000
+const PROJECT = "/Users/dev/app"
+
+interface FixtureSession {
+  id: string
+  title: string
+  directory: string
+  daysAgo: number
+  messages: string[]
+}
+
+const FIXTURES: FixtureSession[] = [
+  {
+    id: "ses_middleware",
+    title: "Add auth middleware",
+    directory: PROJECT,
+    daysAgo: 1,
+    messages: ["Wire the middleware into the router", "The middleware now checks the session token"],
+  },
+  {
+    id: "ses_mentions",
+    title: "Refactor request logging",
+    directory: "/Users/dev/other",
+    daysAgo: 1,
+    messages: ["Logging runs before the middleware chain"],
+  },
+  {
+    id: "ses_parser",
+    title: "Parser cleanup",
+    directory: PROJECT,
+    daysAgo: 3,
+    messages: ["Rename parseHTTPResponse to parseResponse"],
+  },
+  {
+    id: "ses_migration",
+    title: "Database migration",
+    directory: "/Users/dev/other",
+    daysAgo: 2,
+    messages: ["Add a migration for the sessions table"],
+  },
+]
+
+function buildIndex() {
+  const state = createSessionIndex()
+  for (const fixture of FIXTURES) {
+    const info: SessionInfo = {
+      id: fixture.id,
+      title: fixture.title,
+      directory: fixture.directory,
+      updated: NOW - fixture.daysAgo * DAY,
+    }
+    const messages: IndexedMessage[] = fixture.messages.map((text, i) => ({ id: `${fixture.id}_${i}`, text }))
+    addSessionDocuments(state, info, messages)
+  }
+  return state
+}
+
+/** Search the fixtures and rank them the way the Sessions list does */
+function search(query: string, activeProject?: string): string[] {
+  const { terms, matches } = searchSessionIndex(buildIndex(), query, 100)
+  const candidates = FIXTURES.flatMap((fixture): RankingCandidate<string>[] => {
+    const match = matches.get(fixture.id)
+    if (!match) return []
+    return [
+      {
+        item: fixture.id,
+        title: fixture.title,
+        updated: NOW - fixture.daysAgo * DAY,
+        matchRank: match.rank,
+        fuzzy: match.fuzzy,
+        sameProject: !!activeProject && fixture.directory.startsWith(activeProject),
+      },
+    ]
+  })
+  return rankCandidates(candidates, { terms, totalMatches: matches.size, now: NOW })
+}
+
+function candidate(item: string, changes: Partial<RankingCandidate<string>>): RankingCandidate<string> {
+  return { item, title: "", updated: NOW, matchRank: 0, fuzzy: false, sameProject: false, ...changes }
+}
+
+describe("ranking fixture sessions", () => {
+  it("ranks a session with the term in its title above one mentioning it in passing", () => {
+    expect(search("middleware")).toEqual(["ses_middleware", "ses_mentions"])
+  })
+
+  it("finds sessions through a typo in the query", () => {
+    expect(search("midleware")).toEqual(["ses_middleware", "ses_mentions"])
+  })
+
+  it("keeps the strongest match first over the active project boost", () => {
+    expect(search("middleware", "/Users/dev/other")).toEqual(["ses_middleware", "ses_mentions"])
+  })
+
+  it("finds sessions by the parts of an identifier", () => {
+    expect(search("http response")).toEqual(["ses_parser"])
+  })
+
+  it("ranks exact matches above typo-corrected ones", () => {
+    const context = { terms: ["parser"], totalMatches: 10, now: NOW }
+    const ranked = rankCandidates(
+      [
+        candidate("fuzzy", { title: "Parser cleanup", matchRank: 0, fuzzy: true }),
+        candidate("exact", { title: "Parser cleanup", matchRank: 1 }),
+      ],
+      context
+    )
+    expect(ranked).toEqual(["exact", "fuzzy"])
+  })
+
+  it("ranks a title match above the same match in the messages only", () => {
+    const context = { terms: ["migration"], totalMatches: 2, now: NOW }
+    const ranked = rankCandidates(
+      [candidate("body", { title: "Schema work" }), candidate("title", { title: "Database migration" })],
+      context
+    )
+    expect(ranked).toEqual(["title", "body"])
+  })
+
+  it("ranks recently updated sessions above older equal matches", () => {
+    const context = { terms: ["parser"], totalMatches: 2, now: NOW }
+    const ranked = rankCandidates(
+      [
+        candidate("old", { title: "Parser", updated: NOW - 60 * DAY }),
+        candidate("recent", { title: "Parser", updated: NOW - DAY }),
+      ],
+      context
+    )
+    expect(ranked).toEqual(["recent", "old"])
+  })
+
+  it("ranks sessions from the active project above close matches elsewhere", () => {
+    const context = { terms: ["parser"], totalMatches: 10, now: NOW }
+    const candidates = [candidate("elsewhere", { matchRank: 0 }), candidate("project", { matchRank: 1 })]
+    expect(rankCandidates(candidates, context)).toEqual(["elsewhere", "project"])
+
+    candidates[1].sameProject = true
+    expect(rankCandidates(candidates, context)).toEqual(["project", "elsewhere"])
+  })
+})
+
+describe("splitIdentifier", () => {
+  it.each([
+    ["useSessionSearch", ["use", "session", "search"]],
+    ["parseHTTPResponse2", ["parse", "http", "response", "2"]],
+    ["fetch_messages_after", ["fetch", "messages", "after"]],
+    ["kebab-case-name", ["kebab", "case", "name"]],
+    ["XMLParser", ["xml", "parser"]],
+    ["plain", ["plain"]],
+  ])("splits %s", (identifier, parts) => {
+    expect(splitIdentifier(identifier)).toEqual(parts)
+  })
+})
+
+describe("editDistance", () => {
+  it("counts insertions, deletions and substitutions", () => {
+    expect(editDistance("kitten", "sitting")).toBe(3)
+    expect(editDistance("session", "sesion")).toBe(1)
+    expect(editDistance("", "abc")).toBe(3)
+  })
+
+  it("counts an adjacent swap as one edit", () => {
+    expect(editDistance("parser", "pasrer")).toBe(1)
+  })
+
+  it("stops at the maximum", () => {
+    expect(editDistance("middleware", "database", 2)).toBe(3)
+    expect(editDistance("a", "abcdef", 2)).toBe(3)
+  })
+})
+
+describe("correctTerm", () => {
+  const vocabulary = ["session", "lesion", "middleware", "migration", "parser"]
+
+  it("picks the closest word", () => {
+    expect(correctTerm("midleware", vocabulary)).toBe("middleware")
+    expect(correctTerm("migraton", vocabulary)).toBe("migration")
+  })
+
+  it("prefers a word with the same first letter on equal distance", () => {
+    expect(correctTerm("sesion", vocabulary)).toBe("session")
+    expect(correctTerm("sesion", [...vocabulary].reverse())).toBe("session")
+  })
+
+  it("corrects a misspelled prefix", () => {
+    expect(correctTerm("midd", ["middleware"])).toBe("middleware")
+    expect(correctTerm("mdidle", ["middleware"])).toBe("middleware")
+  })
+
+  it("leaves short or distant terms alone", () => {
+    expect(correctTerm("prs", vocabulary)).toBeUndefined()
+    expect(correctTerm("kubernetes", vocabulary)).toBeUndefined()
+  })
+})
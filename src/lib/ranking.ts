@@ -0,0 +1,186 @@
+/** Search result ranking. Everything here is pure so it can be tested against fixture sessions. */
+
+export interface RankingCandidate<T> {
+  item: T
+  title: string
+  updated: number
+  /** Position of the session in the index results, 0 being the best match */
+  matchRank: number
+  /** Found only after correcting a typo in the query */
+  fuzzy: boolean
+  /** The session is in the active project */
+  sameProject: boolean
+}
+
+export interface RankingContext {
+  /** Query terms, after identifier splitting and typo correction */
+  terms: string[]
+  /** Number of sessions the index matched, to normalize `matchRank` */
+  totalMatches: number
+  now: number
+}
+
+const WEIGHTS = {
+  match: 0.45,
+  title: 0.25,
+  recency: 0.2,
+  project: 0.1,
+}
+// A session's recency score halves every two weeks without an update
+const RECENCY_HALF_LIFE_DAYS = 14
+// Typo matches count for less than exact ones, in the index results and in titles
+const FUZZY_PENALTY = 0.6
+const MAX_WORD_LENGTH = 32
+
+/**
+ * Parts of a camelCase, PascalCase, snake_case or kebab-case identifier, lowercased.
+ * `parseHTTPResponse2` becomes `parse`, `http`, `response`, `2`.
+ */
+export function splitIdentifier(word: string): string[] {
+  return word
+    .replace(/(\p{Ll})(\p{Lu})/gu, "$1 $2")
+    .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, "$1 $2")
+    .replace(/(\p{L})(\p{N})|(\p{N})(\p{L})/gu, "$1$3 $2$4")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map((part) => part.toLowerCase())
+}
+
+/** Lowercase words of `text`, with identifiers split into their parts */
+export function getWords(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}_-]+/u).flatMap(splitIdentifier)
+}
+
+/**
+ * Append the parts of each identifier in `text`, so the index finds `useSessionSearch`
+ * when searching for "session search". The identifier itself stays searchable as a whole.
+ */
+export function expandIdentifiers(text: string): string {
+  const parts = text
+    .split(/[^\p{L}\p{N}_-]+/u)
+    .map(splitIdentifier)
+    .filter((words) => words.length > 1)
+    .flat()
+  return parts.length > 0 ? `${text} ${parts.join(" ")}` : text
+}
+
+/** Vocabulary words taken from `text`: long enough for typo correction to be useful */
+export function getVocabularyWords(text: string): string[] {
+  return getWords(text).filter((word) => word.length >= 4 && word.length <= MAX_WORD_LENGTH && !/^\p{N}+$/u.test(word))
+}
+
+/** Edits allowed for a term: none for short words, where a typo could be anything */
+export function getTypoTolerance(term: string): number {
+  if (term.length <= 3) return 0
+  return term.length <= 6 ? 1 : 2
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions and adjacent swaps.
+ * Stops early and returns `max + 1` once the distance is known to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let beforePrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1)
+      }
+      current.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+    beforePrevious = previous
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * How well `term` matches `word`: 1 when `word` starts with it, like the index's prefix matching,
+ * less for a typo within the tolerance, 0 otherwise. Typos are also checked against the start
+ * of `word`, so a misspelled prefix still matches.
+ */
+export function matchTerm(term: string, word: string): number {
+  if (word.startsWith(term)) return 1
+  const tolerance = getTypoTolerance(term)
+  if (tolerance === 0) return 0
+  const distance = Math.min(
+    editDistance(term, word, tolerance),
+    editDistance(term, word.slice(0, term.length), tolerance)
+  )
+  return distance <= tolerance ? FUZZY_PENALTY * (1 - distance / (tolerance + 1)) : 0
+}
+
+interface Correction {
+  word: string
+  distance: number
+}
+
+// Typos rarely hit the first letter, and a correction close in length is more likely the intended word
+function compareCorrections(term: string, a: Correction, b: Correction): number {
+  return (
+    a.distance - b.distance ||
+    Number(b.word[0] === term[0]) - Number(a.word[0] === term[0]) ||
+    Math.abs(a.word.length - term.length) - Math.abs(b.word.length - term.length) ||
+    a.word.localeCompare(b.word)
+  )
+}
+
+/**
+ * The closest vocabulary word to a term the index doesn't know, or undefined when none is close
+ * enough. Ties are broken without depending on the vocabulary's order.
+ */
+export function correctTerm(term: string, vocabulary: Iterable<string>): string | undefined {
+  const tolerance = getTypoTolerance(term)
+  if (tolerance === 0) return undefined
+
+  let best: Correction | undefined
+  for (const word of vocabulary) {
+    const distance = Math.min(
+      editDistance(term, word, tolerance),
+      editDistance(term, word.slice(0, term.length), tolerance)
+    )
+    if (distance > tolerance || (best && compareCorrections(term, best, { word, distance }) <= 0)) continue
+    best = { word, distance }
+  }
+  return best?.word
+}
+
+/** Average of each term's best match against the title words */
+function scoreTitle(title: string, terms: string[]): number {
+  if (terms.length === 0) return 0
+  const words = getWords(title)
+  const total = terms.reduce((sum, term) => sum + Math.max(0, ...words.map((word) => matchTerm(term, word))), 0)
+  return total / terms.length
+}
+
+/** Relevance of one candidate, between 0 and 1 */
+export function scoreCandidate<T>(candidate: RankingCandidate<T>, context: RankingContext): number {
+  const matchPosition = 1 - candidate.matchRank / Math.max(1, context.totalMatches)
+  const matchScore = matchPosition * (candidate.fuzzy ? FUZZY_PENALTY : 1)
+  const ageDays = Math.max(0, context.now - candidate.updated) / 86400000
+  const recencyScore = 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS)
+
+  return (
+    WEIGHTS.match * matchScore +
+    WEIGHTS.title * scoreTitle(candidate.title, context.terms) +
+    WEIGHTS.recency * recencyScore +
+    WEIGHTS.project * (candidate.sameProject ? 1 : 0)
+  )
+}
+
+/** Candidates sorted by score, best first. Equal scores keep the more recently updated session first. */
+export function rankCandidates<T>(candidates: RankingCandidate<T>[], context: RankingContext): T[] {
+  return candidates
+    .map((candidate) => ({ candidate, score: scoreCandidate(candidate, context) }))
+    .sort((a, b) => b.score - a.score || b.candidate.updated - a.candidate.updated)
+    .map(({ candidate }) => candidate.item)
+}
@@ -0,0 +1,147 @@
+import { homedir } from "os"
+import { Message, MessagePart, ToolPart } from "./opencode"
+
+export interface RenderOptions {
+  /** Show tool input/output and full reasoning instead of one-line summaries */
+  expanded?: boolean
+}
+
+const MAX_OUTPUT_LENGTH = 4000
+
+export function fence(content: string, language = ""): string {
+  // Use a fence longer than any backtick run inside the content
+  const longestRun = Math.max(2, ...(content.match(/`+/g) || []).map((run) => run.length))
+  const ticks = "`".repeat(longestRun + 1)
+  return `${ticks}${language}\n${content}\n${ticks}`
+}
+
+function truncate(text: string): string {
+  if (text.length <= MAX_OUTPUT_LENGTH) return text
+  return `${text.slice(0, MAX_OUTPUT_LENGTH)}\n… (${text.length - MAX_OUTPUT_LENGTH} more characters)`
+}
+
+function shortenPath(value: unknown): string | undefined {
+  return typeof value === "string" ? value.replace(homedir(), "~") : undefined
+}
+
+function describeToolInput(part: ToolPart): string | undefined {
+  const input = part.state.input ?? {}
+  switch (part.tool) {
+    case "bash":
+      return typeof input.command === "string" ? input.command : undefined
+    case "read":
+    case "write":
+    case "edit":
+      return shortenPath(input.filePath)
+    case "glob":
+    case "grep":
+      return typeof input.pattern === "string" ? input.pattern : undefined
+    case "webfetch":
+      return typeof input.url === "string" ? input.url : undefined
+    default:
+      return undefined
+  }
+}
+
+function renderToolInput(part: ToolPart): string {
+  const input = part.state.input ?? {}
+  if (part.tool === "bash" && typeof input.command === "string") {
+    return fence(input.command, "sh")
+  }
+  return fence(JSON.stringify(input, null, 2), "json")
+}
+
+function renderTool(part: ToolPart, options: RenderOptions): string {
+  const { state } = part
+  const title = "title" in state && state.title ? state.title : describeToolInput(part)
+  const header = `**\`${part.tool}\`** · ${state.status}${title ? ` · ${title}` : ""}`
+
+  if (!options.expanded) {
+    return state.status === "error" ? `${header}\n\n> ${state.error}` : header
+  }
+
+  const sections = [header, renderToolInput(part)]
+
+  if (state.status === "completed") {
+    const diff = state.metadata?.diff
+    if (typeof diff === "string" && diff.trim()) {
+      sections.push(fence(truncate(diff), "diff"))
+    } else if (state.output.trim()) {
+      sections.push(fence(truncate(state.output)))
+    }
+  } else if (state.status === "error") {
+    sections.push(`> ${state.error}`)
+  }
+
+  return sections.join("\n\n")
+}
+
+/** Who wrote a message, with the agent and model for assistant replies */
+export function describeMessage(message: Message): string {
+  const { info } = message
+  if (info.role === "user") return "You"
+
+  const details = [info.mode, info.modelID].filter(Boolean).join(" · ")
+  return details ? `Assistant (${details})` : "Assistant"
+}
+
+export function renderPart(part: MessagePart, options: RenderOptions = {}): string {
+  switch (part.type) {
+    case "text":
+      return part.text
+    case "reasoning": {
+      if (!part.text.trim()) return ""
+      if (!options.expanded) {
+        const words = part.text.trim().split(/\s+/).length
+        return `> _Reasoning (${words} words)_`
+      }
+      const quoted = part.text
+        .trim()
+        .split("\n")
+        .map((line) => `> ${line}`)
+        .join("\n")
+      return `> **Reasoning**\n>\n${quoted}`
+    }
+    case "file": {
+      const name = part.filename || shortenPath(part.url.replace(/^file:\/\//, "")) || part.url
+      return `**Attached** \`${name}\` · ${part.mime}`
+    }
+    case "tool":
+      return renderTool(part, options)
+    case "patch":
+      if (part.files.length === 0) return ""
+      return `**Changed files**\n\n${part.files.map((file) => `- \`${shortenPath(file)}\``).join("\n")}`
+    case "step-start":
+      // Step boundaries carry no content of their own
+      return ""
+    case "step-finish": {
+      const details = [
+        part.reason,
+        part.tokens ? `${part.tokens.input + part.tokens.output} tokens` : undefined,
+        part.cost ? `$${part.cost.toFixed(4)}` : undefined,
+      ].filter(Boolean)
+      return details.length > 0 && options.expanded ? `_Step finished · ${details.join(" · ")}_` : ""
+    }
+    default:
+      return ""
+  }
+}
+
+export function renderParts(parts: MessagePart[], options: RenderOptions = {}): string {
+  return parts
+    .map((part) => renderPart(part, options))
+    .filter((section) => section.trim())
+    .join("\n\n")
+}
+
+export function renderMessage(message: Message, options: RenderOptions = {}): string {
+  const body = renderParts(message.parts, options)
+  if (message.info.role === "assistant" && message.info.error?.name === "MessageAbortedError") {
+    return [body, "> _Interrupted_"].filter(Boolean).join("\n\n")
+  }
+  if (message.info.role === "assistant" && message.info.error) {
+    const reason = message.info.error.data?.message || message.info.error.name
+    return [body, `> **Error:** ${reason}`].filter(Boolean).join("\n\n")
+  }
+  return body
+}
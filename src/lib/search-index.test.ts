@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest"
+import { addSessionDocuments, createSessionIndex, removeSessionDocuments, searchSessionIndex } from "./search-index"
+
+function session(id: string, title: string) {
+  return { id, title, directory: "/Users/dev/app", updated: 0 }
+}
+
+describe("searchSessionIndex", () => {
+  it("matches terms spread over several messages of a session", () => {
+    const state = createSessionIndex()
+    addSessionDocuments(state, session("a", "Reconnect"), [
+      { id: "a1", text: "The websocket drops after a minute" },
+      { id: "a2", text: "Add exponential backoff to the retry" },
+    ])
+    addSessionDocuments(state, session("b", "Other"), [{ id: "b1", text: "websocket only" }])
+
+    const { matches } = searchSessionIndex(state, "websocket backoff", 10)
+    expect([...matches.keys()]).toEqual(["a"])
+    expect(matches.get("a")?.messageId).toMatch(/^a[12]$/)
+  })
+
+  it("matches a term in the title together with one in a message", () => {
+    const state = createSessionIndex()
+    addSessionDocuments(state, session("a", "Websocket reconnect"), [{ id: "a1", text: "Add exponential backoff" }])
+
+    const { matches } = searchSessionIndex(state, "websocket backoff", 10)
+    expect(matches.get("a")?.messageId).toBe("a1")
+  })
+
+  it("opens at the message with every term when there is one", () => {
+    const state = createSessionIndex()
+    addSessionDocuments(state, session("a", "Retry"), [
+      { id: "a1", text: "backoff alone" },
+      { id: "a2", text: "websocket alone" },
+      { id: "a3", text: "websocket backoff together" },
+    ])
+    expect(searchSessionIndex(state, "websocket backoff", 10).matches.get("a")?.messageId).toBe("a3")
+  })
+
+  it("finds every session with a common term, not just those of the first matching messages", () => {
+    const state = createSessionIndex()
+    for (let i = 0; i < 300; i++) {
+      const messages = Array.from({ length: 12 }, (_, j) => ({ id: `m${i}_${j}`, text: `step ${j} raised an error` }))
+      addSessionDocuments(state, session(`s${i}`, `Session ${i}`), messages)
+    }
+    expect(searchSessionIndex(state, "error", 500).matches.size).toBe(300)
+  })
+
+  it("adds messages from later updates to the session's text", () => {
+    const state = createSessionIndex()
+    const first = [{ id: "a1", text: "websocket drops" }]
+    addSessionDocuments(state, session("a", "Reconnect"), first)
+    addSessionDocuments(state, session("a", "Reconnect"), [...first, { id: "a2", text: "add backoff" }])
+
+    const { matches } = searchSessionIndex(state, "websocket backoff", 10)
+    expect([...matches.keys()]).toEqual(["a"])
+    expect(Object.keys(state.sessions.get("a")?.messageDocuments ?? {})).toEqual(["a1", "a2"])
+  })
+})
+
+describe("session index vocabulary", () => {
+  it("keeps a word while any session uses it", () => {
+    const state = createSessionIndex()
+    addSessionDocuments(state, session("a", "Middleware"), [{ id: "a1", text: "middleware and parser" }])
+    addSessionDocuments(state, session("b", "Parser"), [{ id: "b1", text: "parser only" }])
+    expect(state.vocabulary.get("parser")).toBe(2)
+
+    removeSessionDocuments(state, "a")
+    expect(state.vocabulary.has("middleware")).toBe(false)
+    expect(state.vocabulary.get("parser")).toBe(1)
+  })
+
+  it("stops correcting to words of removed sessions", () => {
+    const state = createSessionIndex()
+    addSessionDocuments(state, session("a", "Middleware"), [])
+    expect(searchSessionIndex(state, "midleware", 10).terms).toEqual(["middleware"])
+
+    removeSessionDocuments(state, "a")
+    expect(searchSessionIndex(state, "midleware", 10).terms).toEqual(["midleware"])
+  })
+
+  it("doesn't correct a term that prefixes an indexed word", () => {
+    const state = createSessionIndex()
+    addSessionDocuments(state, session("a", "Refactor parser"), [{ id: "a1", text: "parsing tokens" }])
+    const { terms, matches } = searchSessionIndex(state, "pars", 10)
+    expect(terms).toEqual(["pars"])
+    expect(matches.get("a")?.fuzzy).toBe(false)
+  })
+
+  it("rebuilds the vocabulary from stored sessions", () => {
+    const state = createSessionIndex()
+    addSessionDocuments(state, session("a", "Middleware"), [{ id: "a1", text: "router" }])
+    const restored = createSessionIndex(state.index, [...state.sessions.values()], state.nextDocumentId)
+    expect([...restored.vocabulary.keys()].sort()).toEqual(["middleware", "router"])
+  })
+})
@@ -0,0 +1,226 @@
+import { DefaultDocumentSearchResults, Document } from "flexsearch"
+import { correctTerm, expandIdentifiers, getVocabularyWords, getWords } from "./ranking"
+
+export interface IndexedMessage {
+  id: string
+  text: string
+}
+
+/** What the index knows about a session. Message text lives in the search store and is read on demand. */
+export interface IndexedSession {
+  id: string
+  title: string
+  directory: string
+  updated: number
+  /** Last message whose content is final; only messages after it are fetched on the next update */
+  cursor?: string
+  /** Document holding the title, directory and the text of every message */
+  documentId: number
+  /** Document of each indexed message, by message ID */
+  messageDocuments: Record<string, number>
+  /** Vocabulary words from the session, released from the vocabulary when it is removed */
+  words: string[]
+}
+
+export type SessionInfo = Omit<IndexedSession, "documentId" | "messageDocuments" | "words">
+
+/**
+ * One document per session with all of its text, which decides whether the session matches, so
+ * terms can be spread over the title and several messages. Each message also has its own
+ * document, tagged with its session's document, to pick the message a match is shown and opened at.
+ * Documents are numbered because the index repeats the ID for every word prefix,
+ * and short numbers keep the stored index several times smaller than string IDs.
+ */
+type SearchDocument = { id: number; session?: string; message?: string; owner?: string }
+export type SearchIndex = Document<SearchDocument>
+
+export interface SessionIndex {
+  index: SearchIndex
+  sessions: Map<string, IndexedSession>
+  /** Session and message of each document */
+  documents: Map<number, { sessionId: string; messageId?: string }>
+  nextDocumentId: number
+  /** Words of the indexed sessions, with how many sessions use each, for correcting typos in searches */
+  vocabulary: Map<string, number>
+  /** The vocabulary in sorted order for prefix lookups, rebuilt on the next search after it changes */
+  sortedVocabulary: string[] | null
+}
+
+export interface IndexMatch {
+  /** Best matching message, or undefined when only the title or directory matched */
+  messageId?: string
+  /** Position among the matched sessions, 0 being the best */
+  rank: number
+  /** Matched only after correcting a typo in the query */
+  fuzzy: boolean
+}
+
+export interface IndexSearchResult {
+  /** Query terms as searched, with identifiers split and typos corrected */
+  terms: string[]
+  matches: Map<string, IndexMatch>
+}
+
+export function createSearchIndex(): SearchIndex {
+  return new Document<SearchDocument>({
+    tokenize: "forward",
+    resolution: 9,
+    document: { id: "id", index: ["session", "message"], tag: "owner" },
+  })
+}
+
+/** Wrap an index with the sessions whose documents it holds */
+export function createSessionIndex(
+  index = createSearchIndex(),
+  sessions: IndexedSession[] = [],
+  nextDocumentId = 1
+): SessionIndex {
+  const state: SessionIndex = {
+    index,
+    sessions: new Map(),
+    documents: new Map(),
+    nextDocumentId,
+    vocabulary: new Map(),
+    sortedVocabulary: null,
+  }
+  for (const session of sessions) {
+    state.sessions.set(session.id, session)
+    session.words.forEach((word) => addToVocabulary(state, word))
+    state.documents.set(session.documentId, { sessionId: session.id })
+    for (const [messageId, documentId] of Object.entries(session.messageDocuments)) {
+      state.documents.set(documentId, { sessionId: session.id, messageId })
+    }
+  }
+  return state
+}
+
+function addToVocabulary(state: SessionIndex, word: string): void {
+  const count = state.vocabulary.get(word) ?? 0
+  if (count === 0) state.sortedVocabulary = null
+  state.vocabulary.set(word, count + 1)
+}
+
+function releaseFromVocabulary(state: SessionIndex, word: string): void {
+  const count = state.vocabulary.get(word) ?? 0
+  if (count > 1) {
+    state.vocabulary.set(word, count - 1)
+  } else {
+    state.vocabulary.delete(word)
+    state.sortedVocabulary = null
+  }
+}
+
+function addSessionWords(state: SessionIndex, words: Set<string>, text: string): void {
+  for (const word of getVocabularyWords(text)) {
+    if (words.has(word)) continue
+    words.add(word)
+    addToVocabulary(state, word)
+  }
+}
+
+/**
+ * Index a session with all of its `messages`. The session document is rewritten, which follows title
+ * changes and new messages; message documents are only added for messages not indexed before.
+ */
+export function addSessionDocuments(state: SessionIndex, info: SessionInfo, messages: IndexedMessage[]): void {
+  const previous = state.sessions.get(info.id)
+  const documentId = previous?.documentId ?? state.nextDocumentId++
+  const messageDocuments = { ...previous?.messageDocuments }
+  // Words of an earlier title stay until the session is removed or replaced
+  const words = new Set(previous?.words)
+
+  const text = [info.title, info.directory, ...messages.map((m) => m.text)].join("\n")
+  state.index.update({ id: documentId, session: expandIdentifiers(text) })
+  state.documents.set(documentId, { sessionId: info.id })
+  addSessionWords(state, words, info.title)
+  for (const message of messages) {
+    if (messageDocuments[message.id] !== undefined) continue
+    const messageDocumentId = state.nextDocumentId++
+    messageDocuments[message.id] = messageDocumentId
+    state.index.add({ id: messageDocumentId, message: expandIdentifiers(message.text), owner: `${documentId}` })
+    state.documents.set(messageDocumentId, { sessionId: info.id, messageId: message.id })
+    addSessionWords(state, words, message.text)
+  }
+
+  state.sessions.set(info.id, { ...info, documentId, messageDocuments, words: [...words] })
+}
+
+export function removeSessionDocuments(state: SessionIndex, sessionId: string): void {
+  const session = state.sessions.get(sessionId)
+  if (!session) return
+
+  for (const documentId of [session.documentId, ...Object.values(session.messageDocuments)]) {
+    state.index.remove(documentId)
+    state.documents.delete(documentId)
+  }
+  session.words.forEach((word) => releaseFromVocabulary(state, word))
+  state.sessions.delete(sessionId)
+}
+
+/** Sessions whose text has every term, best first */
+function searchSessions(state: SessionIndex, terms: string[], limit: number): string[] {
+  const results = state.index.search(terms.join(" "), { index: "session", limit }) as DefaultDocumentSearchResults
+  return (results[0]?.result ?? []).flatMap((id) => state.documents.get(Number(id))?.sessionId ?? [])
+}
+
+/**
+ * The session's message that best matches the terms: one with all of them when there is one,
+ * otherwise one with as many as possible. Undefined when only the title or directory matched.
+ */
+function findMatchingMessage(state: SessionIndex, sessionId: string, terms: string[]): string | undefined {
+  const session = state.sessions.get(sessionId)
+  if (!session) return undefined
+  const results = state.index.search(terms.join(" "), {
+    index: "message",
+    tag: { owner: `${session.documentId}` },
+    limit: 1,
+    suggest: true,
+  }) as DefaultDocumentSearchResults
+  const [id] = results[0]?.result ?? []
+  return id === undefined ? undefined : state.documents.get(Number(id))?.messageId
+}
+
+/** Typo correction only applies to terms no indexed word starts with */
+function isKnownTerm(state: SessionIndex, term: string): boolean {
+  if (/^\p{N}+$/u.test(term)) return true
+  const sorted = (state.sortedVocabulary ??= [...state.vocabulary.keys()].sort())
+
+  // The first word not before `term` is the only one that can start with it
+  let low = 0
+  let high = sorted.length
+  while (low < high) {
+    const middle = (low + high) >>> 1
+    if (sorted[middle] < term) low = middle + 1
+    else high = middle
+  }
+  return low < sorted.length && sorted[low].startsWith(term)
+}
+
+/**
+ * Sessions matching `query`, best first, each with its best matching message. Identifiers in
+ * the query are split like the indexed text. When a term looks like a typo, the closest indexed
+ * word is searched as well and the sessions it adds are marked as fuzzy.
+ */
+export function searchSessionIndex(state: SessionIndex, query: string, limit: number): IndexSearchResult {
+  const terms = getWords(query)
+  const matches = new Map<string, IndexMatch>()
+  if (terms.length === 0) return { terms, matches }
+
+  for (const sessionId of searchSessions(state, terms, limit)) {
+    const messageId = findMatchingMessage(state, sessionId, terms)
+    matches.set(sessionId, { messageId, rank: matches.size, fuzzy: false })
+  }
+
+  const corrected = terms.map((term) =>
+    isKnownTerm(state, term) ? term : correctTerm(term, state.vocabulary.keys()) ?? term
+  )
+  if (corrected.every((term, i) => term === terms[i])) return { terms, matches }
+
+  for (const sessionId of searchSessions(state, corrected, limit)) {
+    if (!matches.has(sessionId)) {
+      const messageId = findMatchingMessage(state, sessionId, corrected)
+      matches.set(sessionId, { messageId, rank: matches.size, fuzzy: true })
+    }
+  }
+  return { terms: corrected, matches }
+}
@@ -0,0 +1,151 @@
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "fs/promises"
+import path from "path"
+import { IndexedMessage, IndexedSession, SessionIndex, createSearchIndex, createSessionIndex } from "./search-index"
+
+const STORE_VERSION = 1
+const MANIFEST_FILE = "manifest.json"
+const MESSAGES_FOLDER = "messages"
+const INDEX_FOLDER_PREFIX = "index-"
+// Message text is split across files so showing a few results only reads a few of them
+const SHARD_COUNT = 32
+
+interface Manifest {
+  version: number
+  /** Folder holding the index export that matches these sessions */
+  indexFolder: string
+  indexKeys: string[]
+  nextDocumentId: number
+  sessions: IndexedSession[]
+}
+
+type Shard = Record<string, IndexedMessage[]>
+
+function getShardNumber(sessionId: string): number {
+  let hash = 0
+  for (let i = 0; i < sessionId.length; i++) {
+    hash = (hash * 31 + sessionId.charCodeAt(i)) >>> 0
+  }
+  return hash % SHARD_COUNT
+}
+
+async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`
+  await writeFile(tempPath, content, "utf8")
+  await rename(tempPath, filePath)
+}
+
+/**
+ * The session search index on disk:
+ *
+ * - `manifest.json` lists the indexed sessions, without their text
+ * - `index-<time>/` is a FlexSearch export, imported instead of re-adding every message on launch
+ * - `messages/<n>.json` holds message text by session, read when a snippet or an update needs it
+ *
+ * The manifest is written last, so a save that fails halfway leaves the previous one usable.
+ */
+export class SearchStore {
+  private shards = new Map<number, Promise<Shard>>()
+  private dirtyShards = new Set<number>()
+  private saving: Promise<void> = Promise.resolve()
+
+  constructor(private readonly root: string) {}
+
+  /** The index and sessions from the last save, or null when nothing usable is stored */
+  async load(): Promise<SessionIndex | null> {
+    try {
+      const manifest = JSON.parse(await readFile(path.join(this.root, MANIFEST_FILE), "utf8")) as Manifest
+      if (manifest.version !== STORE_VERSION) return null
+
+      const folder = path.join(this.root, manifest.indexFolder)
+      const parts = await Promise.all(manifest.indexKeys.map((key) => readFile(path.join(folder, key), "utf8")))
+
+      const index = createSearchIndex()
+      manifest.indexKeys.forEach((key, i) => index.import(key, parts[i]))
+      return createSessionIndex(index, manifest.sessions, manifest.nextDocumentId)
+    } catch {
+      return null
+    }
+  }
+
+  private getShard(shardNumber: number): Promise<Shard> {
+    let shard = this.shards.get(shardNumber)
+    if (!shard) {
+      const filePath = path.join(this.root, MESSAGES_FOLDER, `${shardNumber}.json`)
+      shard = readFile(filePath, "utf8")
+        .then((content) => JSON.parse(content) as Shard)
+        .catch(() => ({}))
+      this.shards.set(shardNumber, shard)
+    }
+    return shard
+  }
+
+  async getMessages(sessionId: string): Promise<IndexedMessage[]> {
+    const shard = await this.getShard(getShardNumber(sessionId))
+    return shard[sessionId] ?? []
+  }
+
+  /** Replace a session's messages. Written on the next save. */
+  async setMessages(sessionId: string, messages: IndexedMessage[]): Promise<void> {
+    const shardNumber = getShardNumber(sessionId)
+    const shard = await this.getShard(shardNumber)
+    shard[sessionId] = messages
+    this.dirtyShards.add(shardNumber)
+  }
+
+  async deleteMessages(sessionId: string): Promise<void> {
+    const shardNumber = getShardNumber(sessionId)
+    const shard = await this.getShard(shardNumber)
+    if (!(sessionId in shard)) return
+    delete shard[sessionId]
+    this.dirtyShards.add(shardNumber)
+  }
+
+  /** Saves run one at a time so an older save can't remove the export a newer manifest points to */
+  save(state: SessionIndex): Promise<void> {
+    const run = this.saving.then(() => this.write(state))
+    this.saving = run.catch(() => undefined)
+    return run
+  }
+
+  private async write(state: SessionIndex): Promise<void> {
+    await mkdir(path.join(this.root, MESSAGES_FOLDER), { recursive: true })
+    for (const shardNumber of [...this.dirtyShards]) {
+      this.dirtyShards.delete(shardNumber)
+      const shard = await this.getShard(shardNumber)
+      await writeFileAtomic(path.join(this.root, MESSAGES_FOLDER, `${shardNumber}.json`), JSON.stringify(shard))
+    }
+
+    const parts: [string, string][] = []
+    state.index.export((key, data) => {
+      parts.push([key, data])
+    })
+
+    const indexFolder = `${INDEX_FOLDER_PREFIX}${Date.now()}`
+    await mkdir(path.join(this.root, indexFolder), { recursive: true })
+    for (const [key, data] of parts) {
+      await writeFile(path.join(this.root, indexFolder, key), data, "utf8")
+    }
+
+    const manifest: Manifest = {
+      version: STORE_VERSION,
+      indexFolder,
+      indexKeys: parts.map(([key]) => key),
+      nextDocumentId: state.nextDocumentId,
+      sessions: Array.from(state.sessions.values()),
+    }
+    await writeFileAtomic(path.join(this.root, MANIFEST_FILE), JSON.stringify(manifest))
+
+    for (const entry of await readdir(this.root)) {
+      if (entry.startsWith(INDEX_FOLDER_PREFIX) && entry !== indexFolder) {
+        await rm(path.join(this.root, entry), { recursive: true, force: true })
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.shards.clear()
+    this.dirtyShards.clear()
+    await this.saving
+    await rm(this.root, { recursive: true, force: true })
+  }
+}
@@ -0,0 +1,92 @@
+import { homedir } from "os"
+import { Session } from "./opencode"
+
+/** A session search split into free text and `key:value` qualifiers */
+export interface SessionQuery {
+  text: string
+  /** Part of the session directory, matched case-insensitively */
+  directory?: string
+  shared?: boolean
+  before?: number
+  after?: number
+}
+
+const QUALIFIER_PATTERN = /(?:^|\s)(dir|shared|before|after):(?:"([^"]*)"|(\S+))/gi
+const DAY_MS = 86400000
+
+/**
+ * Parse a date qualifier value: an ISO date (`2025-01-31`), `today`, `yesterday`,
+ * or a relative age such as `3d` or `2w`.
+ */
+export function parseDateValue(value: string, now = Date.now()): number | undefined {
+  const startOfToday = new Date(now).setHours(0, 0, 0, 0)
+  const lower = value.toLowerCase()
+  if (lower === "today") return startOfToday
+  if (lower === "yesterday") return startOfToday - DAY_MS
+
+  const relative = lower.match(/^(\d+)([dwm])$/)
+  if (relative) {
+    const days = Number(relative[1]) * { d: 1, w: 7, m: 30 }[relative[2] as "d" | "w" | "m"]
+    return now - days * DAY_MS
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    // Date-only strings parse as UTC; use local midnight like the rest of the list
+    const [year, month, day] = value.split("-").map(Number)
+    return new Date(year, month - 1, day).getTime()
+  }
+  return undefined
+}
+
+function parseBoolean(value: string): boolean | undefined {
+  if (["yes", "true", "1"].includes(value.toLowerCase())) return true
+  if (["no", "false", "0"].includes(value.toLowerCase())) return false
+  return undefined
+}
+
+/** Unknown or malformed qualifiers are left in the text so they are still searched for */
+export function parseSessionQuery(input: string, now = Date.now()): SessionQuery {
+  const query: SessionQuery = { text: "" }
+
+  const text = input.replace(QUALIFIER_PATTERN, (match, key: string, quoted?: string, bare?: string) => {
+    const value = quoted ?? bare ?? ""
+    switch (key.toLowerCase()) {
+      case "dir":
+        if (!value) return match
+        query.directory = value.replace(/^~/, homedir()).toLowerCase()
+        return " "
+      case "shared": {
+        const shared = parseBoolean(value)
+        if (shared === undefined) return match
+        query.shared = shared
+        return " "
+      }
+      case "before":
+      case "after": {
+        const time = parseDateValue(value, now)
+        if (time === undefined) return match
+        query[key.toLowerCase() as "before" | "after"] = time
+        return " "
+      }
+      default:
+        return match
+    }
+  })
+
+  query.text = text.replace(/\s+/g, " ").trim()
+  return query
+}
+
+export function hasQualifiers(query: SessionQuery): boolean {
+  return (
+    query.directory !== undefined || query.shared !== undefined || query.before !== undefined || query.after !== undefined
+  )
+}
+
+export function matchesSessionQuery(session: Session, query: SessionQuery): boolean {
+  if (query.directory !== undefined && !session.directory?.toLowerCase().includes(query.directory)) return false
+  if (query.shared !== undefined && !!session.share?.url !== query.shared) return false
+  if (query.before !== undefined && session.time.updated >= query.before) return false
+  if (query.after !== undefined && session.time.updated < query.after) return false
+  return true
+}
@@ -0,0 +1,30 @@
+import { Command } from "./opencode"
+
+export interface ParsedSlashCommand {
+  name: string
+  args: string
+}
+
+/**
+ * Commands handled by dedicated session endpoints rather than `/session/:id/command`.
+ * `clear` is the only one that stays client-side: it starts a new conversation.
+ */
+export const BUILTIN_COMMANDS: Command[] = [
+  { name: "clear", description: "Start a new conversation" },
+  { name: "compact", description: "Summarize the session to free up context" },
+  { name: "share", description: "Share the session and copy its link" },
+  { name: "unshare", description: "Stop sharing the session" },
+]
+
+export function isBuiltinCommand(name: string): boolean {
+  return BUILTIN_COMMANDS.some((c) => c.name === name)
+}
+
+/**
+ * Parse text like `/review src/` into a command name and its raw argument string.
+ */
+export function parseSlashCommand(text: string): ParsedSlashCommand | null {
+  const match = text.trim().match(/^\/([\w:.-]+)(?:\s+([\s\S]*))?$/)
+  if (!match) return null
+  return { name: match[1], args: (match[2] ?? "").trim() }
+}
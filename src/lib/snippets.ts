@@ -0,0 +1,50 @@
+const SNIPPET_RADIUS = 80
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|~])/g, "\\$1")
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+// Spelled out per character, since the `i` flag would also make the camelCase check below ignore case
+function caseInsensitivePattern(term: string): string {
+  return [...term]
+    .map((char) => {
+      const lower = char.toLowerCase()
+      const upper = char.toUpperCase()
+      return lower === upper ? escapeRegExp(char) : `[${lower}${upper}]`
+    })
+    .join("")
+}
+
+/**
+ * Cut a window of `text` around the first query term and bold every term in it.
+ * Terms match as word prefixes, like the index's forward tokenizer, including the parts of
+ * camelCase and snake_case identifiers. Returns markdown.
+ */
+export function buildSnippet(text: string, terms: string[], radius = SNIPPET_RADIUS): string {
+  const flat = text.replace(/\s+/g, " ").trim()
+  if (terms.length === 0) return escapeMarkdown(flat.slice(0, radius * 2))
+
+  const pattern = new RegExp(
+    `(?:(?<![\\p{L}\\p{N}])|(?<=\\p{Ll})(?=\\p{Lu}))(${terms.map(caseInsensitivePattern).join("|")})`,
+    "gu"
+  )
+  const first = pattern.exec(flat)
+  const center = first ? first.index : 0
+
+  const start = Math.max(0, center - radius)
+  const end = Math.min(flat.length, center + radius)
+  const window = flat.slice(start, end)
+
+  const highlighted = window
+    .split(pattern)
+    .map((piece, i) => (i % 2 === 1 ? `**${escapeMarkdown(piece)}**` : escapeMarkdown(piece)))
+    .join("")
+    // Adjacent matches, like the parts of `useSessionSearch`, become one bold run
+    .replace(/\*\*\*\*/g, "")
+
+  return `${start > 0 ? "…" : ""}${highlighted}${end < flat.length ? "…" : ""}`
+}
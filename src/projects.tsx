@@ -1,9 +1,176 @@
-import { List, ActionPanel, Action, Icon, showToast, Toast, Keyboard, confirmAlert, Alert } from "@raycast/api"
-import { useProjects } from "./hooks/useProjects"
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  Keyboard,
+  confirmAlert,
+  Alert,
+  getPreferenceValues,
+  Color,
+} from "@raycast/api"
+import { useEffect, useMemo, useRef, useState } from "react"
+import { useProjects, Project } from "./hooks/useProjects"
+import { ProjectSettingsForm } from "./components/ProjectSettingsForm"
+import { AddProjectForm } from "./components/AddProjectForm"
+import { getClient, OpenCodeClient, Session } from "./lib/opencode"
+import { ensureServer } from "./lib/server-manager"
+import {
+  DiscoveredProject,
+  collectServerProjects,
+  listAllSessions,
+  parseProjectRoots,
+  scanGitRepos,
+} from "./lib/project-discovery"
+import { getActiveProject, setActiveProject, isInProject } from "./lib/active-project"
+import { askInDirectory } from "./lib/handoff"
+import { useGitInfo } from "./hooks/useGitInfo"
+import { formatRemote } from "./lib/git"
 import { homedir } from "os"
 
+interface Preferences {
+  defaultProject?: string
+  projectRoots?: string
+  projectScanDepth: string
+}
+
 export default function Command() {
-  const { projects, isLoading, addProject, removeProject, clearProjects } = useProjects()
+  const preferences = getPreferenceValues<Preferences>()
+  const { projects, isLoading, addProject, updateProject, importProjects, removeProject, clearProjects } =
+    useProjects()
+  const [isImporting, setIsImporting] = useState(false)
+  const [sessions, setSessions] = useState<Session[]>([])
+  const [activeProject, setActiveProjectState] = useState<string>()
+  const importedRef = useRef(false)
+  const gitInfo = useGitInfo(projects.map((p) => p.path))
+
+  useEffect(() => {
+    getActiveProject().then(setActiveProjectState)
+  }, [])
+
+  // Pick up new projects quietly each time the list opens
+  useEffect(() => {
+    if (isLoading || importedRef.current) return
+    importedRef.current = true
+    handleImport(false)
+  }, [isLoading])
+
+  async function findProjects(interactive: boolean): Promise<DiscoveredProject[]> {
+    const found: DiscoveredProject[] = []
+
+    // Only start a server when asked to; opening the list shouldn't spawn one
+    const client = await (
+      interactive
+        ? getClient()
+        : ensureServer(false).then((server) => new OpenCodeClient(server.url, preferences.defaultProject))
+    ).catch(() => null)
+    if (client) {
+      try {
+        const { projects: serverProjects, sessions: sessionList } = await listAllSessions(
+          client,
+          projects.map((p) => p.path)
+        )
+        setSessions(sessionList)
+        found.push(...collectServerProjects(serverProjects, sessionList))
+      } catch {
+        // Fall through to the disk scan
+      }
+    }
+
+    const roots = parseProjectRoots(preferences.projectRoots)
+    if (roots.length > 0) {
+      found.push(...(await scanGitRepos(roots, Number(preferences.projectScanDepth) || 2)))
+    }
+    return found
+  }
+
+  async function handleImport(interactive: boolean) {
+    setIsImporting(true)
+    const toast = interactive
+      ? await showToast({ style: Toast.Style.Animated, title: "Looking for projects..." })
+      : undefined
+    try {
+      const added = await importProjects(await findProjects(interactive))
+      if (toast) {
+        toast.style = Toast.Style.Success
+        toast.title = added > 0 ? `Added ${added} project${added === 1 ? "" : "s"}` : "No new projects found"
+      } else if (added > 0) {
+        await showToast({ style: Toast.Style.Success, title: `Found ${added} new project${added === 1 ? "" : "s"}` })
+      }
+    } catch (error) {
+      if (toast) {
+        toast.style = Toast.Style.Failure
+        toast.title = "Failed to import projects"
+        toast.message = error instanceof Error ? error.message : "Unknown error"
+      }
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const activity = useMemo(() => {
+    const byProject = new Map<string, { sessions: number; lastActive: number }>()
+    for (const project of projects) {
+      const projectSessions = sessions.filter((s) => isInProject(s.directory, project.path))
+      byProject.set(project.path, {
+        sessions: projectSessions.length,
+        lastActive: Math.max(0, ...projectSessions.map((s) => s.time.updated)),
+      })
+    }
+    return byProject
+  }, [projects, sessions])
+
+  async function handleSetActive(project: Project) {
+    const isActive = project.path === activeProject
+    await setActiveProject(isActive ? undefined : project.path)
+    setActiveProjectState(isActive ? undefined : project.path)
+    if (!isActive) await addProject(project.path)
+    await showToast({
+      style: Toast.Style.Success,
+      title: isActive ? `${project.name} is no longer active` : `Switched to ${project.name}`,
+      message: isActive ? undefined : "Ask OpenCode and Recent Sessions will use this project",
+    })
+  }
+
+  function getAccessories(project: Project): List.Item.Accessory[] {
+    const accessories: List.Item.Accessory[] = []
+    const stats = activity.get(project.path)
+    if (project.path === activeProject) {
+      accessories.push({ tag: { value: "Active", color: Color.Green } })
+    }
+    const defaults = [
+      project.agent && `@${project.agent}`,
+      project.model?.modelID,
+      project.prompts?.length && `${project.prompts.length} prompt template${project.prompts.length === 1 ? "" : "s"}`,
+    ].filter(Boolean)
+    if (defaults.length > 0) {
+      accessories.push({ icon: Icon.Gear, tooltip: defaults.join(" · ") })
+    }
+    const git = gitInfo[project.path]
+    if (git?.origin) {
+      accessories.push({ icon: Icon.Globe, text: formatRemote(git.origin), tooltip: git.origin })
+    }
+    if (git) {
+      accessories.push({
+        tag: {
+          value: git.dirty ? `${git.branch} *` : git.branch,
+          color: git.dirty ? Color.Orange : Color.SecondaryText,
+        },
+        tooltip: git.dirty ? "Branch · uncommitted changes" : "Branch",
+      })
+    }
+    if (stats?.sessions) {
+      accessories.push({ icon: Icon.Message, text: `${stats.sessions}`, tooltip: "Sessions" })
+    }
+    if (stats?.lastActive) {
+      accessories.push({ text: formatDate(stats.lastActive), tooltip: "Last active" })
+    } else {
+      accessories.push({ text: formatDate(project.lastUsed), tooltip: "Last used" })
+    }
+    return accessories
+  }
 
   function formatDate(timestamp: number): string {
     const date = new Date(timestamp)
@@ -20,6 +187,14 @@ export default function Command() {
     return date.toLocaleDateString()
   }
 
+  async function handleTogglePin(project: Project) {
+    await updateProject(project.path, { pinned: !project.pinned || undefined })
+    await showToast({
+      style: Toast.Style.Success,
+      title: project.pinned ? `Unpinned ${project.name}` : `Pinned ${project.name}`,
+    })
+  }
+
   async function handleRemove(path: string, name: string) {
     await removeProject(path)
     await showToast({
@@ -44,72 +219,126 @@ export default function Command() {
     })
   }
 
-  async function handleAddProject() {
-    await showToast({
-      style: Toast.Style.Animated,
-      title: "Use @path in Ask OpenCode",
-      message: "Projects are added when you use @path",
-    })
+  // Pinned projects stay out of the tag groups; a project with several tags shows in each of them
+  const pinned = projects.filter((p) => p.pinned)
+  const unpinned = projects.filter((p) => !p.pinned)
+  const tags = [...new Set(unpinned.flatMap((p) => p.tags ?? []))].sort((a, b) => a.localeCompare(b))
+  const tagGroups = tags.map((tag) => [tag, unpinned.filter((p) => p.tags?.includes(tag))] as const)
+  const recent = unpinned.filter((p) => !p.tags?.length)
+
+  function renderProject(project: Project, section: string) {
+    const origin = gitInfo[project.path]?.origin
+    return (
+      <List.Item
+        key={`${section}-${project.path}`}
+        title={project.name}
+        subtitle={project.path.replace(homedir(), "~")}
+        keywords={[...(project.tags ?? []), ...(origin ? [formatRemote(origin)] : [])]}
+        icon={project.path === activeProject ? Icon.CheckCircle : Icon.Folder}
+        accessories={getAccessories(project)}
+        actions={
+          <ActionPanel>
+            <ActionPanel.Section title="Actions">
+              <Action
+                title={project.path === activeProject ? "Clear Active Project" : "Set as Active Project"}
+                icon={project.path === activeProject ? Icon.XMarkCircle : Icon.CheckCircle}
+                onAction={() => handleSetActive(project)}
+              />
+              <Action
+                title="Ask in Project"
+                icon={Icon.QuestionMark}
+                shortcut={{ modifiers: ["cmd"], key: "return" }}
+                onAction={() => askInDirectory(project.path)}
+              />
+              <Action.CopyToClipboard
+                title="Copy Path"
+                content={project.path}
+                shortcut={Keyboard.Shortcut.Common.Copy}
+              />
+              <Action.Open
+                title="Open in Finder"
+                target={project.path}
+                shortcut={Keyboard.Shortcut.Common.Open}
+              />
+            </ActionPanel.Section>
+            <ActionPanel.Section title="Manage">
+              <Action.Push
+                title="Edit Project Settings"
+                icon={Icon.Gear}
+                shortcut={{ modifiers: ["cmd"], key: "e" }}
+                target={
+                  <ProjectSettingsForm
+                    project={project}
+                    onSave={(settings) => updateProject(project.path, settings)}
+                  />
+                }
+              />
+              <Action
+                title={project.pinned ? "Unpin Project" : "Pin Project"}
+                icon={project.pinned ? Icon.PinDisabled : Icon.Pin}
+                shortcut={Keyboard.Shortcut.Common.Pin}
+                onAction={() => handleTogglePin(project)}
+              />
+              <Action
+                title="Remove from List"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={Keyboard.Shortcut.Common.Remove}
+                onAction={() => handleRemove(project.path, project.name)}
+              />
+              <Action.Push
+                title="Add Project"
+                icon={Icon.Plus}
+                shortcut={Keyboard.Shortcut.Common.New}
+                target={<AddProjectForm onAdd={addProject} />}
+              />
+              <Action
+                title="Import Projects"
+                icon={Icon.Download}
+                shortcut={{ modifiers: ["cmd"], key: "i" }}
+                onAction={() => handleImport(true)}
+              />
+              {projects.length > 1 && (
+                <Action
+                  title="Clear All Projects"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  onAction={handleClearAll}
+                />
+              )}
+            </ActionPanel.Section>
+          </ActionPanel>
+        }
+      />
+    )
   }
 
   return (
-    <List isLoading={isLoading} searchBarPlaceholder="Search projects...">
+    <List isLoading={isLoading || isImporting} searchBarPlaceholder="Search projects...">
       {projects.length === 0 && !isLoading ? (
         <List.EmptyView
           title="No recent projects"
-          description="Use @path in Ask OpenCode to add projects"
+          description="Add a folder, import projects from OpenCode, or use @path in Ask OpenCode"
           icon={Icon.Folder}
           actions={
             <ActionPanel>
-              <Action title="How to Add Projects" icon={Icon.QuestionMark} onAction={handleAddProject} />
+              <Action.Push title="Add Project" icon={Icon.Plus} target={<AddProjectForm onAdd={addProject} />} />
+              <Action title="Import Projects" icon={Icon.Download} onAction={() => handleImport(true)} />
             </ActionPanel>
           }
         />
       ) : (
         <>
-          <List.Section title="Recent Projects" subtitle={`${projects.length} projects`}>
-            {projects.map((project) => (
-              <List.Item
-                key={project.path}
-                title={project.name}
-                subtitle={project.path.replace(homedir(), "~")}
-                icon={Icon.Folder}
-                accessories={[{ text: formatDate(project.lastUsed), tooltip: "Last used" }]}
-                actions={
-                  <ActionPanel>
-                    <ActionPanel.Section title="Actions">
-                      <Action.CopyToClipboard
-                        title="Copy Path"
-                        content={project.path}
-                        shortcut={Keyboard.Shortcut.Common.Copy}
-                      />
-                      <Action.Open
-                        title="Open in Finder"
-                        target={project.path}
-                        shortcut={Keyboard.Shortcut.Common.Open}
-                      />
-                    </ActionPanel.Section>
-                    <ActionPanel.Section title="Manage">
-                      <Action
-                        title="Remove from List"
-                        icon={Icon.Trash}
-                        style={Action.Style.Destructive}
-                        shortcut={Keyboard.Shortcut.Common.Remove}
-                        onAction={() => handleRemove(project.path, project.name)}
-                      />
-                      {projects.length > 1 && (
-                        <Action
-                          title="Clear All Projects"
-                          icon={Icon.Trash}
-                          style={Action.Style.Destructive}
-                          onAction={handleClearAll}
-                        />
-                      )}
-                    </ActionPanel.Section>
-                  </ActionPanel>
-                }
-              />
-            ))}
+          <List.Section title="Pinned" subtitle={`${pinned.length}`}>
+            {pinned.map((project) => renderProject(project, "pinned"))}
+          </List.Section>
+          {tagGroups.map(([tag, tagged]) => (
+            <List.Section key={tag} title={tag} subtitle={`${tagged.length}`}>
+              {tagged.map((project) => renderProject(project, `tag-${tag}`))}
+            </List.Section>
+          ))}
+          <List.Section title="Recent Projects" subtitle={`${recent.length} projects`}>
+            {recent.map((project) => renderProject(project, "recent"))}
           </List.Section>
         </>
       )}
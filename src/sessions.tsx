@@ -1,8 +1,26 @@
-import { List, ActionPanel, Action, Icon, showToast, Toast, getPreferenceValues, confirmAlert, Keyboard, Alert } from "@raycast/api"
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  getPreferenceValues,
+  confirmAlert,
+  Keyboard,
+  Alert,
+  Clipboard,
+} from "@raycast/api"
 import { useState, useEffect } from "react"
-import { getClient, Session } from "./lib/opencode"
-import { handoffToOpenCode, copySessionCommand } from "./lib/handoff"
-import { useSessionSearch } from "./hooks/useSessionSearch"
+import { getClient, resetClient, Session } from "./lib/opencode"
+import { handoffToOpenCode, copySessionCommand, continueInRaycast } from "./lib/handoff"
+import { useSessionSearch, SearchMatch } from "./hooks/useSessionSearch"
+import { SessionTranscript } from "./components/SessionTranscript"
+import { EditSessionTitleForm } from "./components/EditSessionTitleForm"
+import { ExportSessionForm } from "./components/ExportSessionForm"
+import { CleanupSessionsForm } from "./components/CleanupSessionsForm"
+import { getActiveProject, isInProject } from "./lib/active-project"
+import { listAllSessions } from "./lib/project-discovery"
 import { homedir } from "os"
 
 import { TerminalApp } from "./lib/handoff"
@@ -12,24 +30,60 @@ interface Preferences {
   terminalApp: TerminalApp
 }
 
+// Dropdown values: all sessions, the active project, or `dir:<path>` for one directory
+type SessionScope = "all" | "active" | `dir:${string}`
+
+function getScopeDirectory(scope: SessionScope, activeProject?: string): string | undefined {
+  if (scope === "active") return activeProject
+  return scope.startsWith("dir:") ? scope.slice(4) : undefined
+}
+
+const DATE_GROUPS = ["Today", "Yesterday", "This Week", "Older"] as const
+
+function getDateGroup(timestamp: number): (typeof DATE_GROUPS)[number] {
+  const startOfToday = new Date().setHours(0, 0, 0, 0)
+  if (timestamp >= startOfToday) return "Today"
+  if (timestamp >= startOfToday - 86400000) return "Yesterday"
+  if (timestamp >= startOfToday - 6 * 86400000) return "This Week"
+  return "Older"
+}
+
 export default function Command() {
   const preferences = getPreferenceValues<Preferences>()
   const [sessions, setSessions] = useState<Session[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [activeProject, setActiveProject] = useState<string>()
+  const [scope, setScope] = useState<SessionScope>()
+  const [knownDirectories, setKnownDirectories] = useState<string[]>([])
 
   const {
     searchText,
     setSearchText,
     filteredSessions,
+    searchMatches,
     isIndexing,
-  } = useSessionSearch(sessions)
+    indexProgress,
+    removeFromIndex,
+  } = useSessionSearch(sessions, activeProject)
 
   async function loadSessions() {
+    if (!scope) return
     setIsLoading(true)
     try {
-      const client = await getClient()
-      const sessionList = await client.listSessions()
+      // The server lists sessions for the project of the client's directory, so All Sessions asks every project
+      const directory = getScopeDirectory(scope, activeProject)
+      if (!directory) resetClient()
+      const client = await getClient(directory)
+      const sessionList = directory
+        ? await client.listSessions()
+        : (await listAllSessions(client, activeProject ? [activeProject] : [])).sessions
       setSessions(sessionList.sort((a, b) => b.time.updated - a.time.updated))
+      // Remember directories across scopes so the dropdown doesn't shrink after narrowing it
+      setKnownDirectories((current) =>
+        [...new Set([...current, ...sessionList.map((s) => s.directory).filter(Boolean)])].sort((a, b) =>
+          a.localeCompare(b)
+        )
+      )
     } catch (error) {
       await showToast({
         style: Toast.Style.Failure,
@@ -42,9 +96,32 @@ export default function Command() {
   }
 
   useEffect(() => {
-    loadSessions()
+    getActiveProject().then((directory) => {
+      setActiveProject(directory)
+      setScope(directory ? "active" : "all")
+    })
   }, [])
 
+  useEffect(() => {
+    loadSessions()
+  }, [scope])
+
+  const visibleSessions = filteredSessions.filter((s) => {
+    if (scope === "active") return !activeProject || isInProject(s.directory, activeProject)
+    if (scope?.startsWith("dir:")) return s.directory === scope.slice(4)
+    return true
+  })
+
+  // Free-text searches show why each session matched
+  const isShowingMatches = Object.keys(searchMatches).length > 0
+
+  // Search results are ranked by relevance, so they stay in one section instead of being split by date
+  const groupedSessions: (readonly [string, Session[]])[] = isShowingMatches
+    ? [["Best Matches", visibleSessions]]
+    : DATE_GROUPS.map(
+        (group) => [group, visibleSessions.filter((s) => getDateGroup(s.time.updated) === group)] as const
+      ).filter(([, group]) => group.length > 0)
+
   async function handleDelete(session: Session) {
     const confirmed = await confirmAlert({
       title: "Delete Session?",
@@ -55,9 +132,9 @@ export default function Command() {
     if (!confirmed) return
 
     try {
-      const client = await getClient()
+      const client = await getClient(session.directory)
       await client.deleteSession(session.id)
-      setSessions((prev) => prev.filter((s) => s.id !== session.id))
+      await handleDeleted([session.id])
       await showToast({
         style: Toast.Style.Success,
         title: "Session deleted",
@@ -71,6 +148,42 @@ export default function Command() {
     }
   }
 
+  async function handleDeleted(sessionIds: string[]) {
+    const deleted = new Set(sessionIds)
+    setSessions((prev) => prev.filter((s) => !deleted.has(s.id)))
+    await removeFromIndex(sessionIds)
+  }
+
+  function replaceSession(updated: Session) {
+    setSessions((prev) => prev.map((s) => (s.id === updated.id ? updated : s)))
+  }
+
+  async function handleToggleShare(session: Session) {
+    const sharing = !session.share?.url
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: sharing ? "Sharing session..." : "Unsharing session...",
+    })
+    try {
+      const client = await getClient(session.directory)
+      const updated = sharing ? await client.shareSession(session.id) : await client.unshareSession(session.id)
+      replaceSession(updated)
+      if (sharing) {
+        if (!updated.share?.url) throw new Error("Server did not return a share link")
+        await Clipboard.copy(updated.share.url)
+        toast.title = "Share link copied"
+        toast.message = updated.share.url
+      } else {
+        toast.title = "Session is no longer shared"
+      }
+      toast.style = Toast.Style.Success
+    } catch (error) {
+      toast.style = Toast.Style.Failure
+      toast.title = sharing ? "Failed to share session" : "Failed to unshare session"
+      toast.message = error instanceof Error ? error.message : "Unknown error"
+    }
+  }
+
   async function handleHandoff(session: Session) {
     await handoffToOpenCode(session.id, preferences.handoffMethod, session.directory, preferences.terminalApp)
   }
@@ -79,6 +192,26 @@ export default function Command() {
     await copySessionCommand(session.id, session.directory)
   }
 
+  function renderMatchDetail(session: Session, match: SearchMatch) {
+    const heading = match.messageId ? "Best matching message:" : "Matched the title or directory:"
+    return (
+      <List.Item.Detail
+        markdown={`## ${session.title || "Untitled Session"}\n\n${heading}\n\n> ${match.snippet}`}
+        metadata={
+          <List.Item.Detail.Metadata>
+            {session.directory && (
+              <List.Item.Detail.Metadata.Label title="Directory" text={session.directory.replace(homedir(), "~")} />
+            )}
+            <List.Item.Detail.Metadata.Label title="Updated" text={new Date(session.time.updated).toLocaleString()} />
+            {session.share?.url && (
+              <List.Item.Detail.Metadata.Link title="Shared" target={session.share.url} text="Open" />
+            )}
+          </List.Item.Detail.Metadata>
+        }
+      />
+    )
+  }
+
   function formatDate(timestamp: number): string {
     const date = new Date(timestamp)
     const now = new Date()
@@ -97,62 +230,145 @@ export default function Command() {
   return (
     <List
       isLoading={isLoading || isIndexing}
-      searchBarPlaceholder="Search sessions..."
+      navigationTitle={isIndexing ? `Recent Sessions (Indexing ${indexProgress}%)` : undefined}
+      isShowingDetail={isShowingMatches}
+      searchBarPlaceholder="Search sessions... (dir:, shared:, before:, after:)"
       filtering={false}
       onSearchTextChange={setSearchText}
       searchText={searchText}
+      searchBarAccessory={
+        <List.Dropdown tooltip="Filter Sessions" value={scope} onChange={(value) => setScope(value as SessionScope)}>
+          <List.Dropdown.Section>
+            {activeProject && (
+              <List.Dropdown.Item
+                title={`Active Project (${activeProject.split("/").pop()})`}
+                value="active"
+                icon={Icon.CheckCircle}
+              />
+            )}
+            <List.Dropdown.Item title="All Sessions" value="all" icon={Icon.List} />
+          </List.Dropdown.Section>
+          <List.Dropdown.Section title="Directories">
+            {knownDirectories.map((directory) => (
+              <List.Dropdown.Item
+                key={directory}
+                title={directory.replace(homedir(), "~")}
+                value={`dir:${directory}`}
+                icon={Icon.Folder}
+              />
+            ))}
+          </List.Dropdown.Section>
+        </List.Dropdown>
+      }
     >
-      {filteredSessions.length === 0 && !isLoading ? (
+      {visibleSessions.length === 0 && !isLoading ? (
         <List.EmptyView
           title={searchText ? "No matching sessions" : "No sessions yet"}
           description={searchText ? "Try a different search term" : "Start a conversation with Ask OpenCode"}
           icon={Icon.Message}
         />
       ) : (
-        filteredSessions.map((session) => (
-          <List.Item
-            key={session.id}
-            title={session.title || "Untitled Session"}
-            subtitle={session.directory?.replace(homedir(), "~")}
-            icon={Icon.Message}
-            accessories={[
-              { text: formatDate(session.time.updated), tooltip: "Last updated" },
-              ...(session.share ? [{ icon: Icon.Link, tooltip: "Shared" }] : []),
-            ]}
-            actions={
-              <ActionPanel>
-                <ActionPanel.Section title="Open">
-                  <Action
-                    title="Continue in OpenCode"
-                    icon={Icon.Terminal}
-                    shortcut={Keyboard.Shortcut.Common.Open}
-                    onAction={() => handleHandoff(session)}
-                  />
-                  <Action
-                    title="Copy Session Command"
-                    icon={Icon.Clipboard}
-                    shortcut={Keyboard.Shortcut.Common.Copy}
-                    onAction={() => handleCopyCommand(session)}
-                  />
-                </ActionPanel.Section>
-                <ActionPanel.Section title="Manage">
-                  <Action
-                    title="Refresh"
-                    icon={Icon.ArrowClockwise}
-                    shortcut={Keyboard.Shortcut.Common.Refresh}
-                    onAction={loadSessions}
-                  />
-                  <Action
-                    title="Delete Session"
-                    icon={Icon.Trash}
-                    style={Action.Style.Destructive}
-                    shortcut={Keyboard.Shortcut.Common.Remove}
-                    onAction={() => handleDelete(session)}
-                  />
-                </ActionPanel.Section>
-              </ActionPanel>
-            }
-          />
+        groupedSessions.map(([group, groupSessions]) => (
+          <List.Section key={group} title={group} subtitle={`${groupSessions.length}`}>
+            {groupSessions.map((session) => (
+              <List.Item
+                key={session.id}
+                title={session.title || "Untitled Session"}
+                subtitle={session.directory?.replace(homedir(), "~")}
+                icon={Icon.Message}
+                accessories={[
+                  { text: formatDate(session.time.updated), tooltip: "Last updated" },
+                  ...(session.share ? [{ icon: Icon.Link, tooltip: "Shared" }] : []),
+                ]}
+                detail={searchMatches[session.id] && renderMatchDetail(session, searchMatches[session.id])}
+                actions={
+                  <ActionPanel>
+                    <ActionPanel.Section title="Open">
+                      {searchMatches[session.id]?.messageId && (
+                        <Action.Push
+                          title="Jump to Match"
+                          icon={Icon.MagnifyingGlass}
+                          target={
+                            <SessionTranscript session={session} focusMessageId={searchMatches[session.id].messageId} />
+                          }
+                        />
+                      )}
+                      <Action
+                        title="Continue in OpenCode"
+                        icon={Icon.Terminal}
+                        shortcut={Keyboard.Shortcut.Common.Open}
+                        onAction={() => handleHandoff(session)}
+                      />
+                      <Action
+                        title="Continue in Raycast"
+                        icon={Icon.Message}
+                        shortcut={{ modifiers: ["cmd"], key: "return" }}
+                        onAction={() => continueInRaycast(session.id, session.directory)}
+                      />
+                      <Action.Push
+                        title="View Transcript"
+                        icon={Icon.Text}
+                        shortcut={{ modifiers: ["cmd"], key: "y" }}
+                        target={<SessionTranscript session={session} />}
+                      />
+                      <Action
+                        title="Copy Session Command"
+                        icon={Icon.Clipboard}
+                        shortcut={Keyboard.Shortcut.Common.Copy}
+                        onAction={() => handleCopyCommand(session)}
+                      />
+                    </ActionPanel.Section>
+                    <ActionPanel.Section title="Manage">
+                      <Action.Push
+                        title="Edit Title"
+                        icon={Icon.Pencil}
+                        shortcut={Keyboard.Shortcut.Common.Edit}
+                        target={<EditSessionTitleForm session={session} onUpdated={replaceSession} />}
+                      />
+                      <Action
+                        title={session.share?.url ? "Unshare Session" : "Share Session"}
+                        icon={session.share?.url ? Icon.XMarkCircle : Icon.Link}
+                        shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+                        onAction={() => handleToggleShare(session)}
+                      />
+                      {session.share?.url && (
+                        <Action.CopyToClipboard
+                          title="Copy Share Link"
+                          content={session.share.url}
+                          shortcut={{ modifiers: ["cmd", "shift"], key: "l" }}
+                        />
+                      )}
+                      <Action.Push
+                        title="Export Transcript"
+                        icon={Icon.Download}
+                        shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+                        target={<ExportSessionForm session={session} />}
+                      />
+                      <Action
+                        title="Refresh"
+                        icon={Icon.ArrowClockwise}
+                        shortcut={Keyboard.Shortcut.Common.Refresh}
+                        onAction={loadSessions}
+                      />
+                      <Action
+                        title="Delete Session"
+                        icon={Icon.Trash}
+                        style={Action.Style.Destructive}
+                        shortcut={Keyboard.Shortcut.Common.Remove}
+                        onAction={() => handleDelete(session)}
+                      />
+                      <Action.Push
+                        title="Clean Up Sessions"
+                        icon={Icon.Eraser}
+                        shortcut={Keyboard.Shortcut.Common.RemoveAll}
+                        target={<CleanupSessionsForm sessions={sessions} onDeleted={handleDeleted} />}
+                      />
+                    </ActionPanel.Section>
+                  </ActionPanel>
+                }
+              />
+            ))}
+          </List.Section>
         ))
       )}
     </List>
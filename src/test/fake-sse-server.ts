@@ -0,0 +1,53 @@
+import { IncomingHttpHeaders, ServerResponse, createServer } from "http"
+import { AddressInfo } from "net"
+
+/** A local server for `/event` that writes SSE chunks exactly as the test gives them */
+export interface FakeSSEServer {
+  url: string
+  /** Resolves with the request headers once a client has connected to `/event` */
+  connected: Promise<IncomingHttpHeaders>
+  /** Write a raw chunk, so tests control where the stream is split */
+  send(chunk: string): Promise<void>
+  /** End the response, which ends the client's stream */
+  end(): void
+  close(): Promise<void>
+}
+
+export async function startFakeSSEServer(): Promise<FakeSSEServer> {
+  let response: ServerResponse | undefined
+  let onConnect: (headers: IncomingHttpHeaders) => void = () => {}
+  const connected = new Promise<IncomingHttpHeaders>((resolve) => {
+    onConnect = resolve
+  })
+
+  const server = createServer((req, res) => {
+    if (req.url?.split("?")[0] !== "/event") {
+      res.writeHead(404).end()
+      return
+    }
+    res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" })
+    res.flushHeaders()
+    response = res
+    onConnect(req.headers)
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    connected,
+    send: (chunk) =>
+      new Promise((resolve, reject) => {
+        if (!response) return reject(new Error("No client connected"))
+        response.write(chunk, (error) => (error ? reject(error) : resolve()))
+      }),
+    end: () => response?.end(),
+    close: () =>
+      new Promise((resolve) => {
+        response?.destroy()
+        server.closeAllConnections()
+        server.close(() => resolve())
+      }),
+  }
+}
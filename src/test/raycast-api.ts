@@ -0,0 +1,11 @@
+/** The parts of `@raycast/api` that library modules touch at import time or in tests */
+export const showToast = async () => ({})
+export const Toast = { Style: { Animated: "animated", Success: "success", Failure: "failure" } }
+export const Clipboard = { copy: async () => {} }
+export const getPreferenceValues = () => ({})
+export const LocalStorage = {
+  getItem: async () => undefined,
+  setItem: async () => {},
+  removeItem: async () => {},
+}
+export const environment = { supportPath: "" }
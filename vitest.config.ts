@@ -0,0 +1,12 @@
+import path from "path"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    // The package only ships types; Raycast provides the module at runtime
+    alias: { "@raycast/api": path.resolve(__dirname, "src/test/raycast-api.ts") },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+})